@@ -0,0 +1,97 @@
+import { Action } from "./actionBatchHelpers";
+
+/**
+ * Limits Meraki enforces on action batches: the number of actions in a
+ * synchronous or asynchronous batch, and the number of batches that may be
+ * running in an organization at the same time.
+ */
+const actionBatchLimits = {
+  synchronous: 20,
+  asynchronous: 100,
+  running: 5,
+} as const;
+
+const actionBatchOperations = ["create", "update", "destroy"] as const;
+
+export type ActionBatchOperation = typeof actionBatchOperations[number];
+
+/** Resource path of an action, relative to the API root, e.g. "/devices/QXXX-XXXX-XXXX/switch/ports/3". */
+export type ActionBatchResource = `/organizations/${string}` | `/networks/${string}` | `/devices/${string}`;
+
+export type ActionBatchPayload = {
+  confirmed: boolean;
+  synchronous: boolean;
+  actions: Action[];
+};
+
+export type ActionBatchBuilderOptions = {
+  /** Whether the batch runs synchronously, which lowers the limit to 20 actions. Defaults to false. */
+  synchronous?: boolean;
+};
+
+export type ActionBatchBuilder = {
+  create: (resource: ActionBatchResource, body: Record<string, unknown>) => ActionBatchBuilder;
+  update: (resource: ActionBatchResource, body: Record<string, unknown>) => ActionBatchBuilder;
+  destroy: (resource: ActionBatchResource) => ActionBatchBuilder;
+  /** Adds an action that was built elsewhere, validating it the same way. */
+  add: (action: Action) => ActionBatchBuilder;
+  actions: () => Action[];
+  /** Returns the payload that batchedApiRequest submits. */
+  build: () => ActionBatchPayload;
+};
+
+// the resource has to start with one of the top level collections and may not contain a query or fragment
+const resourcePattern = /^\/(organizations|networks|devices)\/[^/?#\s]+(\/[^/?#\s]+)*$/;
+
+const getActionBatchLimit = (synchronous?: boolean) =>
+  synchronous ? actionBatchLimits.synchronous : actionBatchLimits.asynchronous;
+
+const getActionBatchSizeError = (size: number, synchronous?: boolean): string | null => {
+  const limit = getActionBatchLimit(synchronous);
+
+  return size > limit
+    ? `${synchronous ? "Synchronous" : "Asynchronous"} action batches can contain at most ${limit} actions, got ${size}`
+    : null;
+};
+
+/**
+ * Collects validated actions for an action batch. Invalid actions and actions
+ * beyond the batch's limit throw as soon as they are added.
+ */
+const createActionBatchBuilder = (options: ActionBatchBuilderOptions = {}): ActionBatchBuilder => {
+  const synchronous = !!options.synchronous;
+  const actions: Action[] = [];
+
+  const add = (action: Action) => {
+    const { resource, operation, body } = action;
+
+    if (!actionBatchOperations.includes(operation)) {
+      throw new Error(`Unsupported action batch operation "${operation}"`);
+    }
+
+    if (!resource || !resourcePattern.test(resource)) {
+      throw new Error(`Invalid action batch resource "${resource}"`);
+    }
+
+    const sizeError = getActionBatchSizeError(actions.length + 1, synchronous);
+
+    if (sizeError) throw new Error(sizeError);
+
+    actions.push({ resource, operation, body });
+
+    return builder;
+  };
+
+  const builder: ActionBatchBuilder = {
+    create: (resource, body) => add({ resource, operation: "create", body }),
+    update: (resource, body) => add({ resource, operation: "update", body }),
+    destroy: (resource) => add({ resource, operation: "destroy", body: {} }),
+    add,
+    actions: () => [...actions],
+    build: () => ({ confirmed: true, synchronous, actions: [...actions] }),
+  };
+
+  return builder;
+};
+
+export { actionBatchLimits, createActionBatchBuilder, getActionBatchLimit, getActionBatchSizeError };
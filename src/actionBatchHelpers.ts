@@ -1,21 +1,34 @@
-import { apiRequest, ApiResponse, ApiError, Options } from "./apiUtils";
+import {
+  actionBatchLimits,
+  ActionBatchPayload,
+  getActionBatchLimit,
+  getActionBatchSizeError,
+} from "./actionBatchBuilder";
+import { apiRequest, toApiError, ApiRequestParams, ApiResponse, ApiError, HTTPMethod, Options } from "./apiUtils";
+import { Cancellation, createCancellation } from "./cancellation";
 
 type Errors = string[];
 
-type ActionBatchStatus = {
+export type ActionBatchStatus = {
   completed: boolean;
   failed: boolean;
   errors: Errors;
-  createdResources?: Record<string, unknown>;
+  /** Resources created by the batch's "create" actions, in the order of those actions. */
+  createdResources?: ActionBatchCreatedResource[];
 };
 
-type Action = {
+export type ActionBatchCreatedResource = {
+  id: string;
+  uri: string;
+};
+
+export type Action = {
   resource: string | null;
   operation: "create" | "update" | "destroy";
   body: Record<string, unknown>;
 };
 
-type ActionBatchResponse = {
+export type ActionBatchResponse = {
   id: string;
   organizationId: string;
   confirmed: boolean;
@@ -24,17 +37,82 @@ type ActionBatchResponse = {
   actions: Action[];
 };
 
-type ActionBatchOptions = {
+export type ActionBatchOptions = {
   maxPollingTime?: number;
   interval?: number;
+  /** Factor the interval is multiplied by after each poll. Defaults to 1, i.e. a fixed interval. */
+  backoffFactor?: number;
+  /** Upper bound in ms of the interval when backing off. Defaults to no limit. */
+  maxInterval?: number;
   synchronous?: boolean;
+  /** Called with the status of the batch after each poll. */
+  onProgress?: (actionBatch: ActionBatchResponse) => void;
+};
+
+/**
+ * "completed" once the batch ran. "pending" when it was still running once
+ * `maxPollingTime` elapsed; it can be checked again later using its `batchId`.
+ */
+export type ActionBatchResult =
+  | (ApiResponse<ActionBatchResponse> & { state: "completed" })
+  | (ApiResponse<ActionBatchResponse> & { state: "pending"; batchId: string });
+
+export type RunActionBatchesOptions = ActionBatchOptions & {
+  /** Number of actions per batch. Defaults to, and may not exceed, Meraki's limit for the batch type. */
+  batchSize?: number;
+  /** Number of batches that run at the same time. Defaults to, and may not exceed, Meraki's limit of 5. */
+  concurrency?: number;
+};
+
+export type ActionBatchPreview = {
+  /** The batch as validated by Meraki, before it runs. */
+  response: ApiResponse<ActionBatchResponse>;
+  /** Confirms the batch so it runs, then polls it like batchedApiRequest. */
+  confirm: (opts?: ActionBatchOptions) => Promise<ActionBatchResult>;
+  /** Deletes the batch without running it. */
+  discard: () => Promise<ApiResponse<unknown>>;
 };
 
-const sleep = (ms: number): Promise<(res: TimerHandler) => number> => {
-  return new Promise((res) => setTimeout(res, ms));
+export type ActionBatchFilters = {
+  /** Only lists batches with this status. */
+  status?: "pending" | "completed" | "failed";
 };
 
-const makeFailResponseObj = (apiResponse: ApiResponse<ActionBatchResponse>): ApiError => {
+/**
+ * "notSubmitted" when the run was aborted before the batch was submitted, and
+ * "unknown" when it was aborted or timed out while the batch was submitted.
+ */
+export type ActionBatchRunStatus = "succeeded" | "failed" | "pending" | "notSubmitted" | "unknown";
+
+export type ActionBatchRunResult = {
+  status: ActionBatchRunStatus;
+  /** Actions of this batch. */
+  actions: Action[];
+  /** Index of the batch's first action in the list that was run. */
+  offset: number;
+  /** ID of the batch once Meraki accepted it, e.g. to wait for a pending batch with waitForActionBatch. */
+  batchId?: string;
+  /** Latest status of the batch, when it succeeded or is still pending. */
+  response?: ActionBatchResponse;
+  /** Why the batch failed, or why its status is unknown. */
+  error?: ApiError;
+};
+
+export type ActionBatchRunReport = {
+  /** Result of every batch, in the order of the actions. */
+  batches: ActionBatchRunResult[];
+  succeeded: Action[];
+  failed: Action[];
+  pending: Action[];
+  notSubmitted: Action[];
+  unknown: Action[];
+};
+
+const makeFailResponseObj = (
+  apiResponse: ApiResponse<ActionBatchResponse>,
+  method: HTTPMethod,
+  url: string,
+): ApiError => {
   //action batch itself failed;
   //apiResponse will have errors;
   //formatting it here for consistent error returns
@@ -44,67 +122,317 @@ const makeFailResponseObj = (apiResponse: ApiResponse<ActionBatchResponse>): Api
     ok: status.completed,
     statusCode: apiResponse.statusCode,
     statusText: apiResponse.statusText,
+    kind: "actionBatchFailed",
+    request: { method, url },
+    body: apiResponse.data,
   } as ApiError;
 
   return error;
 };
 
-const batchedApiRequest = async (
-  orgId: string,
-  actions: Action[],
+const getActionBatchesUrl = (orgId: string, authOptions: Options) =>
+  `${authOptions.baseUrl?.replace(/\/+$/, "") ?? "/api/v1"}/organizations/${orgId}/actionBatches`;
+
+// the submission and every poll share the cancellation of the whole batch instead of timing out on their own
+const getRequestOptions = (authOptions: Options, cancellation: Cancellation): Options =>
+  cancellation.signal ? { ...authOptions, signal: cancellation.signal, timeoutMs: undefined } : authOptions;
+
+const withCancellation = async <T>(authOptions: Options, run: (cancellation: Cancellation) => Promise<T>) => {
+  const cancellation = createCancellation(authOptions);
+
+  try {
+    return await run(cancellation);
+  } catch (failedResponse) {
+    return Promise.reject(cancellation.isCancelled() ? cancellation.error() : failedResponse);
+  } finally {
+    cancellation.dispose();
+  }
+};
+
+const pollActionBatch = async (
+  checkUrl: string,
+  requestOptions: Options,
+  cancellation: Cancellation,
+  opts?: ActionBatchOptions,
+): Promise<ActionBatchResult> => {
+  const backoffFactor = opts?.backoffFactor || 1;
+  const maxInterval = opts?.maxInterval ?? Infinity;
+  let interval = opts?.interval || 500; //ms
+  const endTime = Date.now() + (opts?.maxPollingTime || 12000); //ms
+
+  for (;;) {
+    cancellation.throwIfCancelled();
+    const apiResp = await apiRequest<ActionBatchResponse>("GET", checkUrl, undefined, requestOptions);
+    opts?.onProgress?.(apiResp.data);
+
+    if (apiResp.data?.status?.completed) {
+      return { ...apiResp, state: "completed" };
+    } else if (apiResp.data?.status?.failed) {
+      return Promise.reject(makeFailResponseObj(apiResp, "GET", checkUrl));
+    } else if (Date.now() > endTime) {
+      return { ...apiResp, state: "pending", batchId: apiResp.data.id };
+    }
+
+    await cancellation.sleep(interval);
+    interval = Math.min(interval * backoffFactor, maxInterval);
+  }
+};
+
+// submits a new batch, or confirms an existing one, and polls it until it ran
+const submitAndPollActionBatch = async (
+  batchesUrl: string,
+  submission: Omit<ApiRequestParams, "options">,
   authOptions: Options,
+  cancellation: Cancellation,
   opts?: ActionBatchOptions,
-): Promise<ApiResponse<ActionBatchResponse>> => {
-  const url = `/api/v1/organizations/${orgId}/actionBatches`;
-  const data = {
-    confirmed: true,
+  onSubmitted?: (actionBatch: ActionBatchResponse) => void,
+): Promise<ActionBatchResult> => {
+  const { method, url, data } = submission;
+  const requestOptions = getRequestOptions(authOptions, cancellation);
+  const apiResp = await apiRequest<ActionBatchResponse>(method, url, data, requestOptions);
+
+  onSubmitted?.(apiResp.data);
+
+  if (apiResp.data?.status?.completed) {
+    return { ...apiResp, state: "completed" };
+  } else if (apiResp.data?.status?.failed) {
+    return Promise.reject(makeFailResponseObj(apiResp, method, url));
+  }
+
+  // now we check the actionBatch status to see if things have changed since it was neither failed nor completed (aka pending)
+  return pollActionBatch(`${batchesUrl}/${apiResp.data.id}`, requestOptions, cancellation, opts);
+};
+
+const makeActionBatchPayload = (actions: Action[], confirmed: boolean, opts?: ActionBatchOptions) => {
+  const data: ActionBatchPayload = {
+    confirmed,
     synchronous: !!opts?.synchronous, // by default we want async
     actions,
   };
-  let apiResp;
-  // try to make a post actionBatch request
+  const sizeError = getActionBatchSizeError(actions.length, data.synchronous);
+
+  // Meraki would reject the whole batch, so don't send it
+  if (sizeError) {
+    const error: ApiError = {
+      errors: [sizeError],
+      ok: false,
+      statusCode: 0,
+      statusText: "Too many actions",
+      kind: "validation",
+    };
+
+    return Promise.reject(error);
+  }
+
+  return Promise.resolve(data);
+};
+
+const submitActionBatch = async (
+  orgId: string,
+  actions: Action[],
+  authOptions: Options,
+  opts?: ActionBatchOptions,
+  onSubmitted?: (actionBatch: ActionBatchResponse) => void,
+): Promise<ActionBatchResult> => {
+  const url = getActionBatchesUrl(orgId, authOptions);
+  const data = await makeActionBatchPayload(actions, true, opts);
+
+  return withCancellation(authOptions, (cancellation) =>
+    submitAndPollActionBatch(url, { method: "POST", url, data }, authOptions, cancellation, opts, onSubmitted),
+  );
+};
+
+const batchedApiRequest = (
+  orgId: string,
+  actions: Action[],
+  authOptions: Options,
+  opts?: ActionBatchOptions,
+): Promise<ActionBatchResult> => submitActionBatch(orgId, actions, authOptions, opts);
+
+/**
+ * Submits an action batch without confirming it, so Meraki validates it but
+ * doesn't run it until it is confirmed.
+ */
+const previewActionBatch = async (
+  orgId: string,
+  actions: Action[],
+  authOptions: Options,
+  opts?: ActionBatchOptions,
+): Promise<ActionBatchPreview> => {
+  const url = getActionBatchesUrl(orgId, authOptions);
+  const data = await makeActionBatchPayload(actions, false, opts);
+  const response = await withCancellation(authOptions, (cancellation) =>
+    apiRequest<ActionBatchResponse>("POST", url, data, getRequestOptions(authOptions, cancellation)),
+  );
+
+  if (response.data?.status?.failed) {
+    return Promise.reject(makeFailResponseObj(response, "POST", url));
+  }
+
+  const batchUrl = `${url}/${response.data.id}`;
+
+  return {
+    response,
+    confirm: (confirmOpts) =>
+      withCancellation(authOptions, (cancellation) =>
+        submitAndPollActionBatch(
+          url,
+          { method: "PUT", url: batchUrl, data: { confirmed: true } },
+          authOptions,
+          cancellation,
+          { ...opts, ...confirmOpts },
+        ),
+      ),
+    discard: () => deleteActionBatch(orgId, response.data.id, authOptions),
+  };
+};
+
+const getActionBatch = (orgId: string, batchId: string, authOptions: Options) =>
+  apiRequest<ActionBatchResponse>(
+    "GET",
+    `${getActionBatchesUrl(orgId, authOptions)}/${batchId}`,
+    undefined,
+    authOptions,
+  );
+
+const listActionBatches = (orgId: string, authOptions: Options, filters?: ActionBatchFilters) => {
+  const query = filters?.status ? `?status=${filters.status}` : "";
+
+  return apiRequest<ActionBatchResponse[]>(
+    "GET",
+    `${getActionBatchesUrl(orgId, authOptions)}${query}`,
+    undefined,
+    authOptions,
+  );
+};
+
+/**
+ * Polls an action batch that was submitted earlier, e.g. one that was still
+ * pending when batchedApiRequest gave up, in the same way batchedApiRequest does.
+ */
+const waitForActionBatch = (
+  orgId: string,
+  batchId: string,
+  authOptions: Options,
+  opts?: ActionBatchOptions,
+): Promise<ActionBatchResult> =>
+  withCancellation(authOptions, (cancellation) =>
+    pollActionBatch(
+      `${getActionBatchesUrl(orgId, authOptions)}/${batchId}`,
+      getRequestOptions(authOptions, cancellation),
+      cancellation,
+      opts,
+    ),
+  );
+
+/** Deletes an action batch. Meraki only allows this for batches that were not confirmed. */
+const deleteActionBatch = (orgId: string, batchId: string, authOptions: Options) =>
+  apiRequest<unknown>("DELETE", `${getActionBatchesUrl(orgId, authOptions)}/${batchId}`, undefined, authOptions);
+
+const runActionBatch = async (
+  orgId: string,
+  actions: Action[],
+  offset: number,
+  authOptions: Options,
+  opts?: ActionBatchOptions,
+): Promise<ActionBatchRunResult> => {
+  // the latest status of the batch once Meraki accepted it
+  let latest: ActionBatchResponse | undefined;
+  const onProgress = (actionBatch: ActionBatchResponse) => {
+    latest = actionBatch;
+    opts?.onProgress?.(actionBatch);
+  };
+  const onSubmitted = (actionBatch: ActionBatchResponse) => {
+    latest = actionBatch;
+  };
+
   try {
-    apiResp = await apiRequest<ActionBatchResponse>("POST", url, data, authOptions);
-    if (apiResp.data?.status?.completed) {
-      return apiResp;
-    } else if (apiResp.data?.status?.failed) {
-      return Promise.reject(makeFailResponseObj(apiResp));
-    }
+    const result = await submitActionBatch(orgId, actions, authOptions, { ...opts, onProgress }, onSubmitted);
+    const status = result.state === "pending" ? "pending" : "succeeded";
+
+    return { status, actions, offset, batchId: result.data.id, response: result.data };
   } catch (failedResponse) {
-    return Promise.reject(failedResponse);
+    const error = toApiError(failedResponse);
+    const batchId = latest?.id;
+
+    // the batch keeps running when we stop waiting for it, so it must not be submitted again
+    if (error.kind === "aborted" || error.kind === "timeout") {
+      if (latest && batchId) return { status: "pending", actions, offset, batchId, response: latest };
+
+      // Meraki may have accepted the batch before its request was cancelled, so it isn't safe to submit again either
+      return { status: "unknown", actions, offset, error };
+    }
+
+    return batchId
+      ? { status: "failed", actions, offset, batchId, error }
+      : { status: "failed", actions, offset, error };
   }
+};
 
-  // now we check the actionBatch status to see if things have changed since it was neither failed nor completed (aka pending)
-  const interval = opts?.interval || 500; //ms
-  const endTime = Date.now() + (opts?.maxPollingTime || 12000); //ms
-  while (Date.now() <= endTime) {
-    try {
-      const apiCheckResp = await apiRequest<ActionBatchResponse>(
-        "GET",
-        `/api/v1/organizations/${orgId}/actionBatches/${apiResp.data.id}`,
-      );
+/**
+ * Splits a list of actions of any length into batches, and submits and polls
+ * them while keeping the number of running batches within Meraki's limit.
+ * Batches that fail don't stop the others, so the report may be mixed.
+ */
+const runActionBatches = async (
+  orgId: string,
+  actions: Action[],
+  authOptions: Options,
+  opts?: RunActionBatchesOptions,
+): Promise<ActionBatchRunReport> => {
+  const { batchSize, concurrency, ...batchOpts } = opts || {};
+  const limit = getActionBatchLimit(batchOpts.synchronous);
+  const size = Math.max(1, Math.min(batchSize || limit, limit));
+  const offsets = Array.from({ length: Math.ceil(actions.length / size) }, (_, index) => index * size);
+  const batches: ActionBatchRunResult[] = [];
+  const signal = authOptions.signal || authOptions.fetchOptions?.signal;
+  let nextBatch = 0;
+
+  const runNextBatches = async () => {
+    // once the run is aborted, the remaining batches are reported as not submitted instead of being started
+    while (nextBatch < offsets.length && !signal?.aborted) {
+      const index = nextBatch++;
+      const offset = offsets[index];
 
-      if (apiCheckResp.data?.status?.completed) {
-        return apiCheckResp;
-      } else if (apiCheckResp.data?.status?.failed) {
-        return Promise.reject(makeFailResponseObj(apiCheckResp));
-      } else {
-        await sleep(interval);
-      }
-    } catch (failedResponse) {
-      return Promise.reject(failedResponse);
+      batches[index] = await runActionBatch(
+        orgId,
+        actions.slice(offset, offset + size),
+        offset,
+        authOptions,
+        batchOpts,
+      );
     }
+  };
+
+  const runners = Math.max(1, Math.min(concurrency || actionBatchLimits.running, actionBatchLimits.running));
+
+  await Promise.all(Array.from({ length: Math.min(runners, offsets.length) }, runNextBatches));
+
+  for (let index = nextBatch; index < offsets.length; index++) {
+    const offset = offsets[index];
+
+    batches[index] = { status: "notSubmitted", actions: actions.slice(offset, offset + size), offset };
   }
 
-  const maxPollingErrorMsg = "Your updates have been submitted and are still pending. Try reloading the page.";
-  const error = {
-    errors: [maxPollingErrorMsg],
-    ok: false,
-    statusCode: 200,
-    statusText: "max timeout",
-  } as ApiError;
+  const actionsWithStatus = (status: ActionBatchRunStatus) =>
+    batches.filter((batch) => batch.status === status).flatMap((batch) => batch.actions);
 
-  return Promise.reject(error);
+  return {
+    batches,
+    succeeded: actionsWithStatus("succeeded"),
+    failed: actionsWithStatus("failed"),
+    pending: actionsWithStatus("pending"),
+    notSubmitted: actionsWithStatus("notSubmitted"),
+    unknown: actionsWithStatus("unknown"),
+  };
 };
 
-export { batchedApiRequest };
+export {
+  batchedApiRequest,
+  previewActionBatch,
+  runActionBatches,
+  getActionBatch,
+  listActionBatches,
+  waitForActionBatch,
+  deleteActionBatch,
+};
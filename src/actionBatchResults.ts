@@ -0,0 +1,75 @@
+import { Action, ActionBatchCreatedResource, ActionBatchResponse } from "./actionBatchHelpers";
+import { isApiError, ApiError } from "./apiUtils";
+
+export type ActionResult = {
+  action: Action;
+  /** Index of the action in the batch. */
+  index: number;
+} & (
+  | { status: "succeeded"; createdResource?: ActionBatchCreatedResource }
+  | { status: "failed"; error: string }
+  | { status: "notExecuted" }
+);
+
+/** Error that batchedApiRequest rejects with when the batch itself failed. */
+export type ActionBatchError = ApiError & { kind: "actionBatchFailed"; body: ActionBatchResponse };
+
+const isActionBatchError = (error: unknown): error is ActionBatchError =>
+  isApiError(error) && error.kind === "actionBatchFailed" && typeof error.body === "object" && error.body !== null;
+
+// Meraki names the failing action by its index, e.g. "Error in action at index 2: ..."
+const actionIndexPattern = /\bindex:?\s*(\d+)/i;
+
+const getErrorsByAction = (errors: string[], actionCount: number) => {
+  const errorsByAction = new Map<number, string[]>();
+
+  errors.forEach((error) => {
+    const index = Number(error.match(actionIndexPattern)?.[1]);
+
+    if (index >= 0 && index < actionCount) {
+      errorsByAction.set(index, [...(errorsByAction.get(index) || []), error]);
+    }
+  });
+
+  return errorsByAction;
+};
+
+const unknownFailure = "The action batch failed without an error message";
+
+/**
+ * Matches every action of a batch to its outcome. Action batches run as a
+ * transaction, so when one action fails the others have no effect. When the
+ * errors don't say which action failed, every action is marked as failed.
+ */
+const mapActionBatchResults = (batch: ActionBatchResponse | ActionBatchError): ActionResult[] => {
+  const { actions, status } = isActionBatchError(batch) ? batch.body : batch;
+
+  if (status.failed) {
+    const errorsByAction = getErrorsByAction(status.errors, actions.length);
+    const batchErrors = status.errors.length ? status.errors : [unknownFailure];
+
+    return actions.map((action, index): ActionResult => {
+      const errors = errorsByAction.size ? errorsByAction.get(index) : batchErrors;
+
+      return errors
+        ? { action, index, status: "failed", error: errors.join("\n") }
+        : { action, index, status: "notExecuted" };
+    });
+  }
+
+  if (!status.completed) {
+    return actions.map((action, index) => ({ action, index, status: "notExecuted" }));
+  }
+
+  const createdResources = [...(status.createdResources || [])];
+
+  return actions.map((action, index): ActionResult => {
+    const createdResource = action.operation === "create" ? createdResources.shift() : undefined;
+
+    return createdResource
+      ? { action, index, status: "succeeded", createdResource }
+      : { action, index, status: "succeeded" };
+  });
+};
+
+export { isActionBatchError, mapActionBatchResults };
@@ -1,17 +1,88 @@
+import { Cancellation, createCancellation } from "./cancellation";
+import { Middleware, runMiddleware } from "./middleware";
+import { RateLimiter } from "./rateLimiter";
+
 const httpMethods = ["get", "post", "put", "delete", "options", "GET", "POST", "PUT", "DELETE", "OPTIONS"] as const;
 export type HTTPMethod = typeof httpMethods[number];
+/**
+ * Classifies an error. Errors returned by the API are classified by their status
+ * code. "network" is used when fetch itself failed, "aborted" when the caller's
+ * AbortSignal fired, "timeout" when `timeoutMs` elapsed and "actionBatchFailed"
+ * when an action batch was submitted but failed.
+ */
+export type ApiErrorKind =
+  | "rateLimited"
+  | "unauthorized"
+  | "forbidden"
+  | "notFound"
+  | "validation"
+  | "server"
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "actionBatchFailed"
+  | "unknown";
 export type ApiError = {
   errors: string[];
   ok: false;
   statusCode: number;
   statusText: string;
+  kind?: ApiErrorKind;
+  /** Request that failed. */
+  request?: { method: HTTPMethod; url: string };
+  /** Headers of the error response, with lowercase names. */
+  headers?: Record<string, string>;
+  /** Body of the error response, when it could be parsed. */
+  body?: unknown;
+  /** Number of retries made before the request failed. */
+  retryCount?: number;
+};
+export type RetryEvent = {
+  /** Retry that is about to happen, starting at 0. */
+  attempt: number;
+  /** Time in ms that is waited before the retry. */
+  delay: number;
+  /** Status of the response that is retried, or null when fetch rejected. */
+  status: number | null;
+};
+export type RetryOptions = {
+  /** Number of retries after the initial attempt. Defaults to 5. */
+  maxRetries?: number;
+  /** Response status codes that are retried. Defaults to [429]. */
+  retryOnStatus?: number[];
+  /** Whether a fetch that rejects with a TypeError, i.e. a network failure, is retried. Defaults to false. */
+  retryOnNetworkError?: boolean;
+  /**
+   * Delay in ms before the given retry (0 for the first retry). Only used when the
+   * response has no Retry-After header. Defaults to 1.5 ** (attempt + 1) seconds.
+   */
+  backoff?: (attempt: number) => number;
+  /** Upper bound in ms of the random delay added to every retry. Defaults to 1000. */
+  jitter?: number;
+  /** Total time in ms that may be spent waiting between retries. Defaults to no limit. */
+  maxTotalWait?: number;
+  /** Called before waiting for each retry. */
+  onRetry?: (retry: RetryEvent) => void;
 };
 export type Options = {
   fetchOptions?: RequestInit | undefined;
+  /** Resolves relative request URLs, e.g. "https://api.meraki.com/api/v1". */
+  baseUrl?: string | undefined;
+  /** Headers sent in addition to the default and auth headers. */
+  headers?: Record<string, string> | undefined;
   auth?: {
     apiKey?: string;
     csrfToken?: string;
   };
+  retry?: RetryOptions;
+  /** Cancels the request, including any pending retries. Falls back to `fetchOptions.signal`. */
+  signal?: AbortSignal | undefined;
+  /** Time in ms after which the request, including any retries, is cancelled. */
+  timeoutMs?: number | undefined;
+  /** Paces the request, including any retries, against the budget of its organization. */
+  rateLimiter?: RateLimiter | undefined;
+  /** Wraps every fetch made for the request, including retries. See Middleware. */
+  middleware?: Middleware[] | undefined;
 };
 type AuthHeaders = {
   "X-CSRF-TOKEN"?: string;
@@ -87,31 +158,166 @@ const successResponse = async <ResponseData>(response: Response): Promise<ApiRes
   return Promise.resolve({ data: responseData, ...responseMetadata });
 };
 
+const statusErrorKinds: Record<number, ApiErrorKind> = {
+  400: "validation",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "notFound",
+  422: "validation",
+  429: "rateLimited",
+};
+
+const getErrorKind = (statusCode: number): ApiErrorKind =>
+  statusErrorKinds[statusCode] || (statusCode >= 500 ? "server" : "unknown");
+
+const extractHeaders = (response: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+
+  response.headers?.forEach?.((value, name) => {
+    headers[name] = value;
+  });
+
+  return headers;
+};
+
 const failureResponse = async <ResponseData>(response: Response): Promise<ApiResponse<ResponseData>> => {
+  let body;
   let errors;
 
   try {
-    const errorData = await response.json();
-
-    errors = errorData?.errors || [];
+    body = await response.json();
+    errors = body?.errors || [];
   } catch {
-    errors = ["Could not parse errors from response"];
+    errors = [`Request failed with status ${response.status}${response.statusText ? ` (${response.statusText})` : ""}`];
   }
 
-  return Promise.reject({
+  const error: ApiError = {
     errors,
-    statusCode: response.status,
-    statusText: response.statusText,
-    ok: response.ok,
-  });
+    ok: false,
+    statusCode: response.status ?? 0,
+    statusText: response.statusText ?? "",
+    kind: getErrorKind(response.status),
+    headers: extractHeaders(response),
+    body,
+  };
+
+  return Promise.reject(error);
 };
 
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+
+  return JSON.stringify(error) ?? String(error);
+};
+
+/**
+ * Converts anything thrown while making a request into an ApiError. ApiErrors
+ * keep their details, a rejected fetch becomes a "network" error and anything
+ * else an "unknown" error.
+ */
+const toApiError = (error: unknown, details?: Pick<ApiError, "request" | "retryCount">): ApiError => {
+  if (isApiError(error)) {
+    return { ...details, ...error, kind: error.kind ?? getErrorKind(error.statusCode) };
+  }
+
+  const isNetworkError = error instanceof TypeError;
+
+  return {
+    errors: [describeError(error)],
+    ok: false,
+    statusCode: 0,
+    statusText: isNetworkError ? "Network Error" : "Unknown Error",
+    kind: isNetworkError ? "network" : "unknown",
+    ...details,
+  };
+};
+
+const defaultRetryOptions: Required<RetryOptions> = {
+  maxRetries: 5,
+  retryOnStatus: [429],
+  retryOnNetworkError: false,
+  backoff: (attempt) => 1.5 ** (attempt + 1) * 1000,
+  jitter: 1000,
+  maxTotalWait: Infinity,
+  onRetry: () => undefined,
+};
+
+const fetchWithRetries = async (
+  url: string,
+  fetchOptions: RequestInit,
+  cancellation: Cancellation,
+  options: Options | undefined,
+  retryState: { retryCount: number },
+): Promise<Response> => {
+  const { maxRetries, retryOnStatus, retryOnNetworkError, backoff, jitter, maxTotalWait, onRetry } = {
+    ...defaultRetryOptions,
+    ...options?.retry,
+  };
+  const rateLimiter = options?.rateLimiter;
+  const rateLimitKey = rateLimiter?.getKey(url, options);
+  let attempt = 0;
+  let totalWait = 0;
+
+  for (;;) {
+    let response: Response | undefined;
+    let networkError: unknown;
+
+    cancellation.throwIfCancelled();
+
+    if (rateLimiter && rateLimitKey) {
+      await cancellation.race(rateLimiter.acquire(rateLimitKey, cancellation.signal));
+    }
+
+    try {
+      response = await cancellation.race(
+        options?.middleware?.length
+          ? runMiddleware(options.middleware, url, fetchOptions, attempt)
+          : fetch(url, fetchOptions),
+      );
+    } catch (error) {
+      cancellation.throwIfCancelled();
+      // fetch rejects with a TypeError on network failures, anything else (e.g. from middleware) is not retried
+      if (!retryOnNetworkError || !(error instanceof TypeError)) throw error;
+      networkError = error;
+    }
+
+    const isRetryable = response ? retryOnStatus.includes(response.status) : true;
+    const retryAfter = response ? extractCustomHeaders(response).retryAfter : null;
+    const delay = (retryAfter ? retryAfter * 1000 : backoff(attempt)) + Math.random() * jitter;
+
+    if (!isRetryable || attempt >= maxRetries || totalWait + delay > maxTotalWait) {
+      if (response) return response;
+      throw networkError;
+    }
+
+    if (rateLimiter && rateLimitKey && response?.status === 429) {
+      rateLimiter.pause(rateLimitKey, delay);
+    }
+
+    onRetry({ attempt, delay, status: response ? response.status : null });
+    await cancellation.sleep(delay);
+    totalWait += delay;
+    attempt += 1;
+    retryState.retryCount = attempt;
+  }
+};
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+\-.]*:\/\//i.test(url);
+
+// URLs that already start with the base URL, such as relative pagination links, are left as they are
+const resolveUrl = (url: string, baseUrl?: string) =>
+  baseUrl && !isAbsoluteUrl(url) && !url.startsWith(baseUrl)
+    ? `${baseUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`
+    : url;
+
 const apiRequest = async <ResponseData>(
   method: HTTPMethod,
   url: string,
   data?: Record<string, unknown> | undefined,
   options?: Options,
 ): Promise<ApiResponse<ResponseData>> => {
+  const requestUrl = resolveUrl(url, options?.baseUrl);
   const authHeaders: AuthHeaders = {};
 
   if (options?.auth?.csrfToken) {
@@ -124,30 +330,40 @@ const apiRequest = async <ResponseData>(
 
   const fetchOptions: RequestInit = {
     method: method,
-    headers: { "Content-Type": "application/json", Accept: "application/json", ...authHeaders },
+    headers: { "Content-Type": "application/json", Accept: "application/json", ...authHeaders, ...options?.headers },
     redirect: "follow",
     referrerPolicy: "strict-origin-when-cross-origin",
     ...options?.fetchOptions,
   };
 
-  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-  const totalRetries = 5;
-  let attempt = 0;
-
   if (typeof data !== "undefined") {
     fetchOptions.body = JSON.stringify(data);
   }
 
-  let response = await fetch(url, fetchOptions);
+  const cancellation = createCancellation({
+    signal: options?.signal || options?.fetchOptions?.signal || undefined,
+    timeoutMs: options?.timeoutMs,
+  });
 
-  while (response.status === 429 && attempt < totalRetries) {
-    const retrySec: number = extractCustomHeaders(response).retryAfter || 1.5 ** (attempt + 1);
-    await sleep((retrySec + Math.random()) * 1000);
-    response = await fetch(url, fetchOptions);
-    attempt += 1;
+  if (cancellation.signal) {
+    fetchOptions.signal = cancellation.signal;
   }
 
-  return response.ok ? successResponse<ResponseData>(response) : failureResponse<ResponseData>(response);
+  const retryState = { retryCount: 0 };
+
+  try {
+    const response = await fetchWithRetries(requestUrl, fetchOptions, cancellation, options, retryState);
+
+    return await cancellation.race(
+      response.ok ? successResponse<ResponseData>(response) : failureResponse<ResponseData>(response),
+    );
+  } catch (error) {
+    return Promise.reject(
+      toApiError(error, { request: { method, url: requestUrl }, retryCount: retryState.retryCount }),
+    );
+  } finally {
+    cancellation.dispose();
+  }
 };
 
 const isApiError = (response: unknown): response is ApiError => {
@@ -163,49 +379,4 @@ const isApiError = (response: unknown): response is ApiError => {
   );
 };
 
-const makePaginatedRequest = async <ResponseData>(
-  dataHandler: (data: ResponseData) => void,
-  errorHandler: (errors: string[]) => void,
-  apiRequestParams: ApiRequestParams,
-  maxRequests: number,
-  requestCount: number,
-) => {
-  if (requestCount >= maxRequests) {
-    return;
-  }
-
-  try {
-    const { method, url } = apiRequestParams;
-    const apiResp = await apiRequest<ResponseData>(method, url);
-
-    const { data: responseData, nextPageUrl } = apiResp;
-    dataHandler(responseData);
-
-    if (nextPageUrl) {
-      await makePaginatedRequest<ResponseData>(
-        dataHandler,
-        errorHandler,
-        { ...apiRequestParams, url: nextPageUrl },
-        maxRequests,
-        ++requestCount,
-      );
-    }
-  } catch (badResponse) {
-    if (isApiError(badResponse)) {
-      errorHandler(badResponse.errors);
-    } else {
-      throw new Error("Paginated API request failed with unknown error.");
-    }
-  }
-};
-
-const paginatedApiRequest = async <ResponseData>(
-  dataHandler: (data: ResponseData) => void,
-  errorHandler: (errors: string[]) => void,
-  apiRequestParams: ApiRequestParams,
-  maxRequests = 9999,
-) => {
-  await makePaginatedRequest(dataHandler, errorHandler, apiRequestParams, maxRequests, 0);
-};
-
-export { apiRequest, isApiError, paginatedApiRequest };
+export { apiRequest, isApiError, resolveUrl, toApiError };
@@ -0,0 +1,128 @@
+import { ApiError } from "./apiUtils";
+
+type CancellationOptions = {
+  signal?: AbortSignal | undefined;
+  timeoutMs?: number | undefined;
+};
+
+/**
+ * Combines a caller-provided AbortSignal and a timeout into a single signal
+ * that can be shared by every fetch, sleep and poll of one logical request.
+ * Internal helper, not part of the public API.
+ */
+export type Cancellation = {
+  signal: AbortSignal | undefined;
+  isCancelled: () => boolean;
+  error: () => ApiError;
+  throwIfCancelled: () => void;
+  race: <T>(promise: Promise<T>) => Promise<T>;
+  sleep: (ms: number) => Promise<void>;
+  dispose: () => void;
+};
+
+const makeCancellationError = (timedOut: boolean, timeoutMs?: number): ApiError => {
+  if (timedOut) {
+    return {
+      errors: [`The request timed out after ${timeoutMs}ms`],
+      ok: false,
+      statusCode: 0,
+      statusText: "Timeout",
+      kind: "timeout",
+    };
+  }
+
+  return {
+    errors: ["The request was aborted"],
+    ok: false,
+    statusCode: 0,
+    statusText: "Aborted",
+    kind: "aborted",
+  };
+};
+
+/**
+ * Waits for the given time, or rejects as soon as the signal aborts. The timer
+ * is cleared on abort, so a cancelled request does not keep the process alive
+ * until the sleep would have ended.
+ */
+const sleep = (ms: number, signal?: AbortSignal, error?: () => ApiError): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(error?.());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(error?.());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort);
+  });
+
+export const createCancellation = (options?: CancellationOptions): Cancellation => {
+  const { signal, timeoutMs } = options || {};
+
+  if (!signal && typeof timeoutMs === "undefined") {
+    return {
+      signal: undefined,
+      isCancelled: () => false,
+      error: () => makeCancellationError(false),
+      throwIfCancelled: () => undefined,
+      race: (promise) => promise,
+      sleep: (ms) => sleep(ms),
+      dispose: () => undefined,
+    };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort();
+
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", onAbort);
+  }
+
+  if (typeof timeoutMs !== "undefined" && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  }
+
+  const error = () => makeCancellationError(timedOut, timeoutMs);
+
+  const race = <T>(promise: Promise<T>): Promise<T> => {
+    if (controller.signal.aborted) return Promise.reject(error());
+
+    return new Promise<T>((resolve, reject) => {
+      const rejectOnAbort = () => reject(error());
+
+      controller.signal.addEventListener("abort", rejectOnAbort);
+      promise.then(resolve, reject).finally(() => controller.signal.removeEventListener("abort", rejectOnAbort));
+    });
+  };
+
+  return {
+    signal: controller.signal,
+    isCancelled: () => controller.signal.aborted,
+    error,
+    throwIfCancelled: () => {
+      if (controller.signal.aborted) throw error();
+    },
+    race,
+    sleep: (ms) => sleep(ms, controller.signal, error),
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
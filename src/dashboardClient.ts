@@ -0,0 +1,176 @@
+import {
+  batchedApiRequest,
+  deleteActionBatch,
+  getActionBatch,
+  listActionBatches,
+  previewActionBatch,
+  runActionBatches,
+  waitForActionBatch,
+  Action,
+  ActionBatchFilters,
+  ActionBatchOptions,
+  ActionBatchPreview,
+  ActionBatchResponse,
+  ActionBatchResult,
+  ActionBatchRunReport,
+  RunActionBatchesOptions,
+} from "./actionBatchHelpers";
+import { apiRequest, ApiRequestParams, ApiResponse, HTTPMethod, Options } from "./apiUtils";
+import {
+  fetchAllPages,
+  iterateItems,
+  iteratePages,
+  paginatedApiRequest,
+  FetchAllPagesOptions,
+  PaginatedApiResponse,
+  PaginationOptions,
+} from "./paginationHelpers";
+
+const regionBaseUrls = {
+  com: "https://api.meraki.com/api/v1",
+  cn: "https://api.meraki.cn/api/v1",
+  in: "https://api.meraki.in/api/v1",
+  ca: "https://api.meraki.ca/api/v1",
+  gov: "https://api.gov-meraki.com/api/v1",
+} as const;
+
+export type DashboardRegion = keyof typeof regionBaseUrls;
+
+export type DashboardClientConfig = {
+  /** API root that relative URLs are resolved against. Takes precedence over `region`. */
+  baseUrl?: string;
+  /** Meraki region whose API root is used when no `baseUrl` is given. Defaults to "com". */
+  region?: DashboardRegion;
+  apiKey?: string;
+  csrfToken?: string;
+  /** Headers sent with every request. */
+  defaultHeaders?: Record<string, string>;
+  /** Options such as `retry`, `timeoutMs` or `rateLimiter` applied to every request. */
+  options?: Options;
+};
+
+export type DashboardClient = {
+  baseUrl: string;
+  request: <ResponseData>(
+    method: HTTPMethod,
+    url: string,
+    data?: Record<string, unknown> | undefined,
+    options?: Options,
+  ) => Promise<ApiResponse<ResponseData>>;
+  paginate: <ResponseData>(
+    dataHandler: (data: ResponseData) => void,
+    errorHandler: (errors: string[]) => void,
+    apiRequestParams: ApiRequestParams,
+    maxRequests?: number,
+    paginationOptions?: Omit<PaginationOptions<ResponseData>, "maxRequests">,
+  ) => Promise<void>;
+  iteratePages: <ResponseData>(
+    apiRequestParams: ApiRequestParams,
+    paginationOptions?: PaginationOptions<ResponseData>,
+  ) => AsyncGenerator<ApiResponse<ResponseData>, void, undefined>;
+  iterateItems: <Item>(
+    apiRequestParams: ApiRequestParams,
+    paginationOptions?: PaginationOptions<Item[]>,
+  ) => AsyncGenerator<Item, void, undefined>;
+  fetchAllPages: <Item>(
+    apiRequestParams: ApiRequestParams,
+    fetchAllPagesOptions?: FetchAllPagesOptions<Item>,
+  ) => Promise<PaginatedApiResponse<Item>>;
+  batch: (orgId: string, actions: Action[], opts?: ActionBatchOptions, options?: Options) => Promise<ActionBatchResult>;
+  preview: (
+    orgId: string,
+    actions: Action[],
+    opts?: ActionBatchOptions,
+    options?: Options,
+  ) => Promise<ActionBatchPreview>;
+  runBatches: (
+    orgId: string,
+    actions: Action[],
+    opts?: RunActionBatchesOptions,
+    options?: Options,
+  ) => Promise<ActionBatchRunReport>;
+  getBatch: (orgId: string, batchId: string, options?: Options) => Promise<ApiResponse<ActionBatchResponse>>;
+  listBatches: (
+    orgId: string,
+    filters?: ActionBatchFilters,
+    options?: Options,
+  ) => Promise<ApiResponse<ActionBatchResponse[]>>;
+  waitForBatch: (
+    orgId: string,
+    batchId: string,
+    opts?: ActionBatchOptions,
+    options?: Options,
+  ) => Promise<ActionBatchResult>;
+  deleteBatch: (orgId: string, batchId: string, options?: Options) => Promise<ApiResponse<unknown>>;
+};
+
+/**
+ * Combines the client's options with the options of a single call. Auth,
+ * headers and retry options are merged and the call's middleware runs inside
+ * the client's middleware. Everything else is overridden.
+ */
+const mergeOptions = (clientOptions: Options, callOptions?: Options): Options => ({
+  ...clientOptions,
+  ...callOptions,
+  auth: { ...clientOptions.auth, ...callOptions?.auth },
+  headers: { ...clientOptions.headers, ...callOptions?.headers },
+  retry: { ...clientOptions.retry, ...callOptions?.retry },
+  middleware: [...(clientOptions.middleware || []), ...(callOptions?.middleware || [])],
+});
+
+/**
+ * Creates a client whose methods share a base URL, authentication and default
+ * options, so the same code can target api.meraki.com, a regional API or a
+ * local mock.
+ */
+const createDashboardClient = (config: DashboardClientConfig = {}): DashboardClient => {
+  const { region = "com", apiKey, csrfToken, defaultHeaders, options } = config;
+  const baseUrl = config.baseUrl ?? regionBaseUrls[region];
+  const auth: Options["auth"] = {};
+
+  if (apiKey) auth.apiKey = apiKey;
+  if (csrfToken) auth.csrfToken = csrfToken;
+
+  const clientOptions = mergeOptions({ ...options, baseUrl }, { auth, headers: { ...defaultHeaders } });
+
+  const withClientOptions = (apiRequestParams: ApiRequestParams): ApiRequestParams => ({
+    ...apiRequestParams,
+    options: mergeOptions(clientOptions, apiRequestParams.options),
+  });
+
+  return {
+    baseUrl,
+    request: (method, url, data, requestOptions) =>
+      apiRequest(method, url, data, mergeOptions(clientOptions, requestOptions)),
+    paginate: (dataHandler, errorHandler, apiRequestParams, maxRequests, paginationOptions) =>
+      paginatedApiRequest(
+        dataHandler,
+        errorHandler,
+        withClientOptions(apiRequestParams),
+        maxRequests,
+        paginationOptions,
+      ),
+    iteratePages: (apiRequestParams, paginationOptions) =>
+      iteratePages(withClientOptions(apiRequestParams), paginationOptions),
+    iterateItems: (apiRequestParams, paginationOptions) =>
+      iterateItems(withClientOptions(apiRequestParams), paginationOptions),
+    fetchAllPages: (apiRequestParams, fetchAllPagesOptions) =>
+      fetchAllPages(withClientOptions(apiRequestParams), fetchAllPagesOptions),
+    batch: (orgId, actions, opts, batchOptions) =>
+      batchedApiRequest(orgId, actions, mergeOptions(clientOptions, batchOptions), opts),
+    preview: (orgId, actions, opts, batchOptions) =>
+      previewActionBatch(orgId, actions, mergeOptions(clientOptions, batchOptions), opts),
+    runBatches: (orgId, actions, opts, batchOptions) =>
+      runActionBatches(orgId, actions, mergeOptions(clientOptions, batchOptions), opts),
+    getBatch: (orgId, batchId, batchOptions) =>
+      getActionBatch(orgId, batchId, mergeOptions(clientOptions, batchOptions)),
+    listBatches: (orgId, filters, batchOptions) =>
+      listActionBatches(orgId, mergeOptions(clientOptions, batchOptions), filters),
+    waitForBatch: (orgId, batchId, opts, batchOptions) =>
+      waitForActionBatch(orgId, batchId, mergeOptions(clientOptions, batchOptions), opts),
+    deleteBatch: (orgId, batchId, batchOptions) =>
+      deleteActionBatch(orgId, batchId, mergeOptions(clientOptions, batchOptions)),
+  };
+};
+
+export { createDashboardClient };
@@ -0,0 +1,168 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { resolveUrl, toApiError, ApiError, ApiRequestParams, ApiResponse } from "../apiUtils";
+
+export type ApiCacheOptions = {
+  /** Time in ms a cached response is served without being revalidated. Defaults to 30 seconds. */
+  ttlMs?: number;
+};
+
+export type ApiCacheEntry = {
+  response: ApiResponse<unknown>;
+  updatedAt: number;
+};
+
+/** Called with the new entry when a key is updated, or with undefined when it is invalidated. */
+export type ApiCacheListener = (entry: ApiCacheEntry | undefined) => void;
+
+/**
+ * In-memory cache of responses shared by every useApiRequest inside an
+ * ApiCacheProvider. Requests for a key that is already in flight share its
+ * response instead of being sent again. Entries are only marked stale, never
+ * evicted, so a cache for many different URLs grows until it is invalidated.
+ */
+export type ApiCache = {
+  get: (key: string) => ApiCacheEntry | undefined;
+  isStale: (key: string) => boolean;
+  fetch: <ResponseData>(
+    key: string,
+    request: () => Promise<ApiResponse<ResponseData>>,
+  ) => Promise<ApiResponse<ResponseData>>;
+  /** Error of the last request for the key, if it failed. Kept until the key is requested again or cleared. */
+  getError: (key: string) => ApiError | undefined;
+  /** Drops the errors whose key starts with the prefix, or all of them without one, so their requests are retried. */
+  clearErrors: (keyPrefix?: string) => void;
+  /** Drops every entry whose key starts with the prefix, or all of them without one. Mounted hooks refetch. */
+  invalidate: (keyPrefix?: string) => void;
+  subscribe: (key: string, listener: ApiCacheListener) => () => void;
+};
+
+/**
+ * Key of a request, starting with its method and resolved URL so keys can be
+ * invalidated by prefix. Requests sent with other credentials or headers,
+ * including `fetchOptions.headers`, get their own key, so responses are never
+ * shared between users.
+ */
+const getApiCacheKey = ({
+  method,
+  url,
+  data,
+  options,
+}: Pick<ApiRequestParams, "method" | "url" | "data" | "options">): string => {
+  const { baseUrl, auth, headers, fetchOptions } = options || {};
+  const fetchHeaders: [string, string][] = [];
+
+  // Headers lowercases and sorts the names, so equal headers give equal keys
+  if (fetchOptions?.headers) {
+    new Headers(fetchOptions.headers).forEach((value, name) => fetchHeaders.push([name, value]));
+  }
+
+  const identity =
+    auth?.apiKey || auth?.csrfToken || headers || fetchHeaders.length
+      ? JSON.stringify({ auth, headers, fetchHeaders })
+      : undefined;
+
+  return [method, resolveUrl(url, baseUrl), data && JSON.stringify(data), identity].filter(Boolean).join(" ");
+};
+
+const createApiCache = (cacheOptions?: ApiCacheOptions): ApiCache => {
+  const { ttlMs = 30000 } = cacheOptions || {};
+  const entries = new Map<string, ApiCacheEntry>();
+  const inFlight = new Map<string, Promise<ApiResponse<unknown>>>();
+  const errors = new Map<string, ApiError>();
+  const listeners = new Map<string, Set<ApiCacheListener>>();
+
+  const notify = (key: string, entry: ApiCacheEntry | undefined) => {
+    listeners.get(key)?.forEach((listener) => listener(entry));
+  };
+
+  const get = (key: string) => entries.get(key);
+
+  const isStale = (key: string) => {
+    const entry = entries.get(key);
+
+    return !entry || Date.now() - entry.updatedAt >= ttlMs;
+  };
+
+  const fetch = <ResponseData,>(key: string, request: () => Promise<ApiResponse<ResponseData>>) => {
+    const pending = inFlight.get(key) as Promise<ApiResponse<ResponseData>> | undefined;
+
+    if (pending) return pending;
+
+    errors.delete(key);
+
+    const promise: Promise<ApiResponse<ResponseData>> = request().then(
+      (response) => {
+        // a response to a request that was invalidated while in flight is not cached
+        if (inFlight.get(key) === promise) {
+          const entry = { response, updatedAt: Date.now() };
+          entries.set(key, entry);
+          notify(key, entry);
+        }
+
+        return response;
+      },
+      (error) => {
+        if (inFlight.get(key) === promise) errors.set(key, toApiError(error));
+
+        throw error;
+      },
+    );
+    const settle = () => {
+      if (inFlight.get(key) === promise) inFlight.delete(key);
+    };
+
+    inFlight.set(key, promise);
+    promise.then(settle, settle);
+
+    return promise;
+  };
+
+  const getError = (key: string) => errors.get(key);
+
+  const clearErrors = (keyPrefix = "") => {
+    [...errors.keys()].filter((key) => key.startsWith(keyPrefix)).forEach((key) => errors.delete(key));
+  };
+
+  const invalidate = (keyPrefix = "") => {
+    const keys = new Set([...entries.keys(), ...listeners.keys()].filter((key) => key.startsWith(keyPrefix)));
+
+    keys.forEach((key) => {
+      entries.delete(key);
+      inFlight.delete(key);
+      errors.delete(key);
+    });
+    keys.forEach((key) => notify(key, undefined));
+  };
+
+  const subscribe = (key: string, listener: ApiCacheListener) => {
+    const keyListeners = listeners.get(key) || new Set();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+
+    return () => {
+      keyListeners.delete(listener);
+      if (!keyListeners.size) listeners.delete(key);
+    };
+  };
+
+  return { get, isStale, fetch, getError, clearErrors, invalidate, subscribe };
+};
+
+const ApiCacheContext = createContext<ApiCache | undefined>(undefined);
+
+type ApiCacheProviderProps = ApiCacheOptions & {
+  /** Cache to share, e.g. to invalidate it outside of React. Defaults to a new cache. */
+  cache?: ApiCache;
+  children?: ReactNode;
+};
+
+const ApiCacheProvider = ({ cache, ttlMs, children }: ApiCacheProviderProps) => {
+  const [providedCache] = useState(() => cache || createApiCache(ttlMs === undefined ? {} : { ttlMs }));
+
+  return <ApiCacheContext.Provider value={providedCache}>{children}</ApiCacheContext.Provider>;
+};
+
+/** Returns the cache of the closest ApiCacheProvider, if any. */
+const useApiCache = (): ApiCache | undefined => useContext(ApiCacheContext);
+
+export { ApiCacheProvider, createApiCache, getApiCacheKey, useApiCache };
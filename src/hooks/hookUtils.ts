@@ -0,0 +1,8 @@
+import { isApiError } from "../index";
+
+const unparsedErrors = ["Could not parse errors from response"];
+
+/** Returns the errors of a failed request, which aren't always an ApiError. */
+const getErrors = (badResponse: unknown): string[] => (isApiError(badResponse) ? badResponse.errors : unparsedErrors);
+
+export { getErrors };
@@ -1 +1,7 @@
 export * from "./useApiRequest";
+export * from "./useActionBatch";
+export * from "./useApiMutation";
+export * from "./apiCache";
+export * from "./usePaginatedApiRequest";
+export * from "./usePollingApiRequest";
+export * from "./useSuspenseApiRequest";
@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  batchedApiRequest,
+  Action,
+  ActionBatchCreatedResource,
+  ActionBatchOptions,
+  ActionBatchResponse,
+} from "../actionBatchHelpers";
+import { toApiError, ApiError, Options } from "../apiUtils";
+
+export type ActionBatchState =
+  | { status: "idle" }
+  | { status: "submitting" }
+  | { status: "polling"; actionBatch: ActionBatchResponse }
+  | { status: "pending"; actionBatch: ActionBatchResponse }
+  | { status: "completed"; actionBatch: ActionBatchResponse; createdResources: ActionBatchCreatedResource[] }
+  | { status: "failed"; errors: string[]; error: ApiError };
+
+type ActionBatchMetadata = [(actions: Action[]) => Promise<void>, ActionBatchState];
+
+/**
+ * Submits action batches and tracks their progress. Polling stops when the
+ * component unmounts or another batch is submitted.
+ */
+export const useActionBatch = (orgId: string, authOptions: Options, opts?: ActionBatchOptions): ActionBatchMetadata => {
+  const [state, setState] = useState<ActionBatchState>({ status: "idle" });
+  const controllerRef = useRef<AbortController>();
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const submit = useCallback(
+    async (actions: Action[]) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setState({ status: "submitting" });
+
+      try {
+        const result = await batchedApiRequest(
+          orgId,
+          actions,
+          { ...authOptions, signal: controller.signal },
+          {
+            ...opts,
+            onProgress: (actionBatch) => {
+              opts?.onProgress?.(actionBatch);
+              if (!controller.signal.aborted) setState({ status: "polling", actionBatch });
+            },
+          },
+        );
+
+        if (controller.signal.aborted) return;
+
+        if (result.state === "pending") {
+          setState({ status: "pending", actionBatch: result.data });
+        } else {
+          const createdResources = result.data.status.createdResources || [];
+          setState({ status: "completed", actionBatch: result.data, createdResources });
+        }
+      } catch (failedResponse) {
+        if (controller.signal.aborted) return;
+
+        const error = toApiError(failedResponse);
+        setState({ status: "failed", errors: error.errors, error });
+      }
+    },
+    [orgId, authOptions, opts],
+  );
+
+  return [submit, state];
+};
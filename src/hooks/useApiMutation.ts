@@ -0,0 +1,53 @@
+import { useState, useRef, useCallback } from "react";
+import { HTTPMethod, Options } from "../apiUtils";
+import { apiRequest, ApiResponse } from "../index";
+import { getErrors } from "./hookUtils";
+
+export type ApiMutationState<ResponseData> = {
+  response: ApiResponse<ResponseData> | undefined;
+  errors: string[] | undefined;
+  isLoading: boolean;
+};
+
+type ApiMutationMetadata<ResponseData> = [
+  (data?: Record<string, unknown>) => Promise<ApiResponse<ResponseData> | undefined>,
+  ApiMutationState<ResponseData>,
+];
+
+/**
+ * Makes a request only when mutate is called, e.g. to submit a form. mutate
+ * resolves with the response, or undefined when the request failed.
+ */
+export const useApiMutation = <ResponseData>(
+  method: HTTPMethod,
+  url: string,
+  options?: Options,
+): ApiMutationMetadata<ResponseData> => {
+  const [state, setState] = useState<ApiMutationState<ResponseData>>({
+    response: undefined,
+    errors: undefined,
+    isLoading: false,
+  });
+
+  const paramsRef = useRef({ method, url, options });
+  paramsRef.current = { method, url, options };
+
+  const mutate = useCallback(async (data?: Record<string, unknown>) => {
+    const { method: latestMethod, url: latestUrl, options: latestOptions } = paramsRef.current;
+
+    setState((previousState) => ({ ...previousState, errors: undefined, isLoading: true }));
+
+    try {
+      const response = await apiRequest<ResponseData>(latestMethod, latestUrl, data, latestOptions);
+      setState({ response, errors: undefined, isLoading: false });
+
+      return response;
+    } catch (badResponse) {
+      setState({ response: undefined, errors: getErrors(badResponse), isLoading: false });
+
+      return undefined;
+    }
+  }, []);
+
+  return [mutate, state];
+};
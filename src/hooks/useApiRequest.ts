@@ -1,39 +1,123 @@
-import { useState, useEffect } from "react";
-import { ApiRequestParams } from "../apiUtils";
-import { apiRequest, isApiError, ApiResponse } from "../index";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { isApiError, ApiError, ApiRequestParams } from "../apiUtils";
+import { apiRequest, ApiResponse } from "../index";
+import { getApiCacheKey, useApiCache } from "./apiCache";
+import { getErrors } from "./hookUtils";
 
-type ApiResponseMetadata<ResponseData> = [ApiResponse<ResponseData> | undefined, string[] | undefined, boolean];
+export type UseApiRequestOptions = {
+  /** Whether the request is made when the component mounts and its dependencies change. Defaults to true. */
+  enabled?: boolean;
+};
+
+export type ApiRequestControls = {
+  /** Makes the request again with the latest params, even when the hook is not enabled or its response is cached. */
+  refetch: () => Promise<void>;
+  /** Whether the response is from the latest request, i.e. no newer request is in flight or failed since. */
+  isLatest: boolean;
+  /** ApiError of the latest request, if it failed with one, e.g. to read its `kind` or headers. */
+  error: ApiError | undefined;
+};
+
+type ApiResponseMetadata<ResponseData> = [
+  ApiResponse<ResponseData> | undefined,
+  string[] | undefined,
+  boolean,
+  ApiRequestControls,
+];
 
 export const useApiRequest = <ResponseData>(
   apiRequestParams: ApiRequestParams,
-  dependencies = [],
+  dependencies: unknown[] = [],
+  { enabled = true }: UseApiRequestOptions = {},
 ): ApiResponseMetadata<ResponseData> => {
-  const { method, url, data, options } = apiRequestParams;
+  // only GET requests are cached, and only inside an ApiCacheProvider
+  const cache = useApiCache();
+  const cacheKey = cache && apiRequestParams.method === "GET" ? getApiCacheKey(apiRequestParams) : undefined;
 
-  const [response, setResponse] = useState<ApiResponse<ResponseData>>();
+  const [response, setResponse] = useState<ApiResponse<ResponseData> | undefined>(() =>
+    cacheKey ? (cache?.get(cacheKey)?.response as ApiResponse<ResponseData>) : undefined,
+  );
   const [errors, setErrors] = useState<string[]>();
+  const [error, setError] = useState<ApiError>();
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isLatest, setIsLatest] = useState<boolean>(false);
+  const controllerRef = useRef<AbortController>();
+
+  // refetch is called from event handlers, so it reads the params of the latest render
+  const paramsRef = useRef({ apiRequestParams, cache, cacheKey, enabled });
+  paramsRef.current = { apiRequestParams, cache, cacheKey, enabled };
+
+  // every request supersedes the previous one, whose late response would otherwise overwrite the newer one
+  const makeRequest = useCallback(async (revalidate = true) => {
+    const {
+      apiRequestParams: { method, url, data, options },
+      cache: latestCache,
+      cacheKey: latestCacheKey,
+    } = paramsRef.current;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const cached = latestCacheKey ? latestCache?.get(latestCacheKey) : undefined;
+
+    // a stale response is shown while it is revalidated
+    if (cached) setResponse(cached.response as ApiResponse<ResponseData>);
+
+    if (cached && !revalidate && latestCacheKey && !latestCache?.isStale(latestCacheKey)) {
+      setIsLatest(true);
+      setError(undefined);
+      setErrors(undefined);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setIsLatest(false);
+    setError(undefined);
+    setErrors(undefined);
+
+    try {
+      // requests shared through the cache are not aborted, since other hooks may be waiting for them
+      const responseFromApi =
+        latestCache && latestCacheKey
+          ? await latestCache.fetch(latestCacheKey, () => apiRequest<ResponseData>(method, url, data, options))
+          : await apiRequest<ResponseData>(method, url, data, { ...options, signal: controller.signal });
+
+      if (controller.signal.aborted) return;
+
+      setResponse(responseFromApi);
+      setIsLatest(true);
+    } catch (badResponse) {
+      if (controller.signal.aborted) return;
+
+      setError(isApiError(badResponse) ? badResponse : undefined);
+      setErrors(getErrors(badResponse));
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  const refetch = useCallback(() => makeRequest(), [makeRequest]);
 
   useEffect(() => {
-    const makeRequest = async () => {
-      setIsLoading(true);
-
-      try {
-        const responseFromApi = await apiRequest<ResponseData>(method, url, data, options);
-        setResponse(responseFromApi);
-      } catch (badResponse) {
-        if (isApiError(badResponse)) {
-          setErrors(badResponse.errors);
-        } else {
-          setErrors(["Could not parse errors from response"]);
-        }
-      } finally {
-        setIsLoading(false);
+    if (enabled) makeRequest(false);
+  }, [...dependencies, enabled]);
+
+  // picks up responses that other hooks fetched for the same key, and refetches once the key is invalidated
+  useEffect(() => {
+    if (!cache || !cacheKey) return undefined;
+
+    return cache.subscribe(cacheKey, (entry) => {
+      if (!entry) {
+        if (paramsRef.current.enabled) makeRequest();
+      } else if (!controllerRef.current?.signal.aborted) {
+        setResponse(entry.response as ApiResponse<ResponseData>);
       }
-    };
+    });
+  }, [cache, cacheKey]);
 
-    makeRequest();
-  }, dependencies);
+  useEffect(() => () => controllerRef.current?.abort(), []);
 
-  return [response, errors, isLoading];
+  return [response, errors, isLoading, { refetch, isLatest, error }];
 };
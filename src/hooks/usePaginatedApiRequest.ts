@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { ApiRequestParams } from "../apiUtils";
+import { apiRequest, ApiResponse } from "../index";
+import { getErrors } from "./hookUtils";
+import { UseApiRequestOptions } from "./useApiRequest";
+
+type PageDirection = "next" | "previous";
+
+type PageRequestState = {
+  isLoading: boolean;
+  errors: string[] | undefined;
+};
+
+export type PaginatedApiRequestState<Item> = {
+  /** Pages loaded so far, in the order of the endpoint. */
+  pages: ApiResponse<Item[]>[];
+  /** Items of all pages loaded so far. */
+  items: Item[];
+  /** Loading and error state of the first page. */
+  isLoading: boolean;
+  errors: string[] | undefined;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+  nextPageErrors: string[] | undefined;
+  previousPageErrors: string[] | undefined;
+  /** Loads the page after the last one through its `nextPageUrl`. */
+  fetchNextPage: () => Promise<void>;
+  /** Loads the page before the first one through its `prevPageUrl`. */
+  fetchPreviousPage: () => Promise<void>;
+  /** Drops the loaded pages and requests the first page again. */
+  refetch: () => Promise<void>;
+};
+
+const idleRequest: PageRequestState = { isLoading: false, errors: undefined };
+
+/**
+ * Loads the first page of a paginated endpoint that returns an array, and
+ * further pages on demand, e.g. for infinite scroll. Changing the
+ * dependencies starts over from the first page.
+ */
+export const usePaginatedApiRequest = <Item>(
+  apiRequestParams: ApiRequestParams,
+  dependencies: unknown[] = [],
+  { enabled = true }: UseApiRequestOptions = {},
+): PaginatedApiRequestState<Item> => {
+  const [pages, setPages] = useState<ApiResponse<Item[]>[]>([]);
+  const [firstPageRequest, setFirstPageRequest] = useState<PageRequestState>(idleRequest);
+  const [nextPageRequest, setNextPageRequest] = useState<PageRequestState>(idleRequest);
+  const [previousPageRequest, setPreviousPageRequest] = useState<PageRequestState>(idleRequest);
+
+  // page requests are made from event handlers, so they read the state of the latest render
+  const paramsRef = useRef(apiRequestParams);
+  paramsRef.current = apiRequestParams;
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+
+  // aborted when starting over, so pages of the previous params are never added
+  const controllerRef = useRef<AbortController>();
+  const inFlightRef = useRef<Record<PageDirection, boolean>>({ next: false, previous: false });
+
+  const requestPage = (url: string, signal: AbortSignal) => {
+    const { method, data, options } = paramsRef.current;
+
+    return apiRequest<Item[]>(method, url, data, { ...options, signal });
+  };
+
+  const fetchFirstPage = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    inFlightRef.current = { next: false, previous: false };
+
+    setPages([]);
+    setNextPageRequest(idleRequest);
+    setPreviousPageRequest(idleRequest);
+    setFirstPageRequest({ isLoading: true, errors: undefined });
+
+    try {
+      const page = await requestPage(paramsRef.current.url, controller.signal);
+
+      if (controller.signal.aborted) return;
+
+      setPages([page]);
+      setFirstPageRequest(idleRequest);
+    } catch (badResponse) {
+      if (controller.signal.aborted) return;
+
+      setFirstPageRequest({ isLoading: false, errors: getErrors(badResponse) });
+    }
+  }, []);
+
+  const fetchPage = async (direction: PageDirection) => {
+    const controller = controllerRef.current;
+    const loadedPages = pagesRef.current;
+    const url = direction === "next" ? loadedPages[loadedPages.length - 1]?.nextPageUrl : loadedPages[0]?.prevPageUrl;
+    const setRequest = direction === "next" ? setNextPageRequest : setPreviousPageRequest;
+
+    if (!controller || !url || inFlightRef.current[direction]) return;
+
+    inFlightRef.current[direction] = true;
+    setRequest({ isLoading: true, errors: undefined });
+
+    try {
+      const page = await requestPage(url, controller.signal);
+
+      if (controller.signal.aborted) return;
+
+      setPages((previousPages) => (direction === "next" ? [...previousPages, page] : [page, ...previousPages]));
+      setRequest(idleRequest);
+    } catch (badResponse) {
+      if (controller.signal.aborted) return;
+
+      setRequest({ isLoading: false, errors: getErrors(badResponse) });
+    } finally {
+      if (!controller.signal.aborted) inFlightRef.current[direction] = false;
+    }
+  };
+
+  const fetchNextPage = useCallback(() => fetchPage("next"), []);
+  const fetchPreviousPage = useCallback(() => fetchPage("previous"), []);
+
+  useEffect(() => {
+    if (enabled) fetchFirstPage();
+  }, [...dependencies, enabled]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    pages,
+    items: ([] as Item[]).concat(...pages.map((page) => page.data)),
+    isLoading: firstPageRequest.isLoading,
+    errors: firstPageRequest.errors,
+    hasNextPage: !!pages[pages.length - 1]?.nextPageUrl,
+    hasPreviousPage: !!pages[0]?.prevPageUrl,
+    isFetchingNextPage: nextPageRequest.isLoading,
+    isFetchingPreviousPage: previousPageRequest.isLoading,
+    nextPageErrors: nextPageRequest.errors,
+    previousPageErrors: previousPageRequest.errors,
+    fetchNextPage,
+    fetchPreviousPage,
+    refetch: fetchFirstPage,
+  };
+};
@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef } from "react";
+import { ApiError, ApiRequestParams } from "../apiUtils";
+import { ApiResponse } from "../index";
+import { useApiRequest, ApiRequestControls, UseApiRequestOptions } from "./useApiRequest";
+
+export type PollingApiRequestOptions = UseApiRequestOptions & {
+  /** Time in ms between the end of a request and the start of the next one. */
+  pollInterval: number;
+  /** Whether polling pauses while the tab is hidden. Defaults to true. */
+  pauseWhenHidden?: boolean;
+  /** Number of failed requests in a row after which polling stops. Defaults to 3. */
+  maxErrors?: number;
+};
+
+export type PollingApiRequestControls = ApiRequestControls & {
+  /** Time in ms since the epoch at which the last successful response was received. */
+  lastUpdatedAt: number | undefined;
+  /** Whether another request is scheduled, i.e. polling is enabled, the tab is visible and it didn't stop after errors. */
+  isPolling: boolean;
+};
+
+type PollingApiResponseMetadata<ResponseData> = [
+  ApiResponse<ResponseData> | undefined,
+  string[] | undefined,
+  boolean,
+  PollingApiRequestControls,
+];
+
+// failed requests carry the header in the ApiError instead of the response
+const getRetryAfterMs = (response: ApiResponse<unknown> | undefined, error: ApiError | undefined): number => {
+  const retryAfter = error ? parseInt(error.headers?.["retry-after"] || "", 10) : response?.retryAfter;
+
+  return (retryAfter || 0) * 1000;
+};
+
+const isDocumentHidden = () => typeof document !== "undefined" && document.visibilityState === "hidden";
+
+const useDocumentHidden = (enabled: boolean): boolean => {
+  const [isHidden, setIsHidden] = useState(() => enabled && isDocumentHidden());
+
+  useEffect(() => {
+    if (!enabled || typeof document === "undefined") return undefined;
+
+    const onVisibilityChange = () => setIsHidden(isDocumentHidden());
+
+    onVisibilityChange();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [enabled]);
+
+  return enabled && isHidden;
+};
+
+/**
+ * Same as useApiRequest, but makes the request again `pollInterval` ms after
+ * each request finished, e.g. to keep device statuses on a wallboard current.
+ * When a response or a failed request, e.g. a rate limited one, has a
+ * Retry-After header, the next request waits at least that long.
+ */
+export const usePollingApiRequest = <ResponseData>(
+  apiRequestParams: ApiRequestParams,
+  dependencies: unknown[] = [],
+  { pollInterval, pauseWhenHidden = true, maxErrors = 3, enabled = true }: PollingApiRequestOptions,
+): PollingApiResponseMetadata<ResponseData> => {
+  const [response, errors, isLoading, controls] = useApiRequest<ResponseData>(apiRequestParams, dependencies, {
+    enabled,
+  });
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number>();
+  const [errorCount, setErrorCount] = useState(0);
+  const isHidden = useDocumentHidden(pauseWhenHidden);
+
+  const wasLoadingRef = useRef(false);
+  const lastFinishedAtRef = useRef(Date.now());
+
+  // counts the outcome of each request once it finished
+  useEffect(() => {
+    if (isLoading) {
+      wasLoadingRef.current = true;
+      return;
+    }
+
+    if (!wasLoadingRef.current) return;
+
+    wasLoadingRef.current = false;
+    lastFinishedAtRef.current = Date.now();
+
+    if (errors) {
+      setErrorCount((count) => count + 1);
+    } else {
+      setErrorCount(0);
+      setLastUpdatedAt(lastFinishedAtRef.current);
+    }
+  }, [isLoading]);
+
+  const isPolling = enabled && !isHidden && errorCount < maxErrors;
+
+  useEffect(() => {
+    if (!isPolling || isLoading) return undefined;
+
+    const delay = Math.max(pollInterval, getRetryAfterMs(response, controls.error));
+    // a tab that becomes visible again only waits for what is left of the delay
+    const timer = setTimeout(() => controls.refetch(), lastFinishedAtRef.current + delay - Date.now());
+
+    return () => clearTimeout(timer);
+  }, [isPolling, isLoading, pollInterval, errorCount, lastUpdatedAt]);
+
+  return [response, errors, isLoading, { ...controls, lastUpdatedAt, isPolling }];
+};
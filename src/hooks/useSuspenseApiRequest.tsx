@@ -0,0 +1,108 @@
+import { Component, useEffect, useReducer, ErrorInfo, ReactNode } from "react";
+import { isApiError, ApiError, ApiRequestParams } from "../apiUtils";
+import { apiRequest, ApiResponse } from "../index";
+import { createApiCache, getApiCacheKey, useApiCache, ApiCache } from "./apiCache";
+
+// suspended components lose their state, so their requests live in a cache even without an ApiCacheProvider
+const defaultApiCache = createApiCache();
+
+const useSuspenseApiCache = (): ApiCache => useApiCache() || defaultApiCache;
+
+/**
+ * Returns the response of a request inside React Suspense. Throws a promise
+ * while the request is in flight and the ApiError once it failed, for the
+ * closest Suspense and error boundary to handle. Responses are shared through
+ * the ApiCacheProvider, and stale ones are shown while they are revalidated.
+ */
+export const useSuspenseApiRequest = <ResponseData,>(apiRequestParams: ApiRequestParams): ApiResponse<ResponseData> => {
+  const { method, url, data, options } = apiRequestParams;
+  const cache = useSuspenseApiCache();
+  const cacheKey = getApiCacheKey(apiRequestParams);
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  const request = () => apiRequest<ResponseData>(method, url, data, options);
+  const entry = cache.get(cacheKey);
+
+  useEffect(() => cache.subscribe(cacheKey, rerender), [cache, cacheKey]);
+
+  useEffect(() => {
+    // the rejection reaches the component through getError once it renders again
+    if (entry && cache.isStale(cacheKey)) cache.fetch(cacheKey, request).catch(rerender);
+  }, [cache, cacheKey, entry]);
+
+  if (entry) return entry.response as ApiResponse<ResponseData>;
+
+  const error = cache.getError(cacheKey);
+
+  if (error) throw error;
+
+  throw cache.fetch(cacheKey, request).catch(() => undefined);
+};
+
+type ApiErrorBoundaryProps = {
+  /** Renders the error instead of the default list of its errors. */
+  fallback?: (error: ApiError, retry: () => void) => ReactNode;
+  /** Called with every ApiError that was caught, e.g. to report it. */
+  onError?: (error: ApiError, errorInfo: ErrorInfo) => void;
+  children?: ReactNode;
+};
+
+type ApiErrorBoundaryState = {
+  error: ApiError | undefined;
+};
+
+type CacheErrorBoundaryProps = ApiErrorBoundaryProps & {
+  cache: ApiCache;
+};
+
+class CacheErrorBoundary extends Component<CacheErrorBoundaryProps, ApiErrorBoundaryState> {
+  state: ApiErrorBoundaryState = { error: undefined };
+
+  constructor(props: CacheErrorBoundaryProps) {
+    super(props);
+    // errors are kept in the cache, so without this a boundary that mounts again would show them without a new request
+    props.cache.clearErrors();
+  }
+
+  static getDerivedStateFromError(error: unknown): ApiErrorBoundaryState | null {
+    return isApiError(error) ? { error } : null;
+  }
+
+  componentDidCatch(error: unknown, errorInfo: ErrorInfo) {
+    if (isApiError(error)) this.props.onError?.(error, errorInfo);
+  }
+
+  retry = () => {
+    this.props.cache.clearErrors();
+    this.setState({ error: undefined });
+  };
+
+  render() {
+    const { error } = this.state;
+
+    if (!error) return this.props.children;
+    if (this.props.fallback) return this.props.fallback(error, this.retry);
+
+    return (
+      <div role="alert">
+        <ul>
+          {error.errors.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+        <button type="button" onClick={this.retry}>
+          Try again
+        </button>
+      </div>
+    );
+  }
+}
+
+/**
+ * Error boundary for useSuspenseApiRequest that renders the `errors` of the
+ * ApiError it caught, with a button to retry the failed requests. Errors that
+ * aren't ApiErrors are passed on to the next error boundary.
+ */
+export const ApiErrorBoundary = (props: ApiErrorBoundaryProps) => (
+  <CacheErrorBoundary {...props} cache={useSuspenseApiCache()} />
+);
@@ -4,3 +4,16 @@ export * from "./apiUtils";
 export * from "./hooks";
 export { fetchBaseQuery };
 export * from "./actionBatchHelpers";
+export * from "./actionBatchResults";
+export { actionBatchLimits, createActionBatchBuilder } from "./actionBatchBuilder";
+export type {
+  ActionBatchBuilder,
+  ActionBatchBuilderOptions,
+  ActionBatchOperation,
+  ActionBatchPayload,
+  ActionBatchResource,
+} from "./actionBatchBuilder";
+export * from "./paginationHelpers";
+export * from "./rateLimiter";
+export * from "./dashboardClient";
+export type { Middleware, MiddlewareNext, MiddlewareRequest } from "./middleware";
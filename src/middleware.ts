@@ -0,0 +1,32 @@
+export type MiddlewareRequest = {
+  url: string;
+  /** Options passed to fetch. Headers are always a Headers instance so they can be changed in place. */
+  init: RequestInit & { headers: Headers };
+  /** Attempt of the request, starting at 0. Retries go through the middleware again. */
+  attempt: number;
+};
+
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Wraps every fetch made for a request. Middleware can change the request
+ * before calling `next`, and inspect or replace the response it resolves with.
+ * The first middleware in the list is the outermost one.
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>;
+
+const runMiddleware = (
+  middleware: Middleware[],
+  url: string,
+  init: RequestInit,
+  attempt: number,
+): Promise<Response> => {
+  const dispatch = (index: number, request: MiddlewareRequest): Promise<Response> =>
+    index < middleware.length
+      ? middleware[index](request, (nextRequest) => dispatch(index + 1, nextRequest))
+      : fetch(request.url, request.init);
+
+  return dispatch(0, { url, init: { ...init, headers: new Headers(init.headers) }, attempt });
+};
+
+export { runMiddleware };
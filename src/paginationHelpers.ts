@@ -0,0 +1,314 @@
+import { apiRequest, isApiError, ApiRequestParams, ApiResponse, RetryEvent } from "./apiUtils";
+import { Cancellation, createCancellation } from "./cancellation";
+
+export type PaginationOptions<ResponseData> = {
+  /** Maximum number of pages to request. Defaults to 9,999. */
+  maxRequests?: number;
+  /**
+   * Link to follow from each page: "next" (the default) walks forward through
+   * `nextPageUrl`, "prev" walks backward through `prevPageUrl`.
+   */
+  direction?: "next" | "prev";
+  /**
+   * Called with each page after it was received. Returning true stops the walk
+   * after that page, e.g. once the page contains items past a timestamp or id
+   * cutoff.
+   */
+  stopWhen?: (page: ApiResponse<ResponseData>) => boolean;
+  /**
+   * Called before each page after the first one with the params for that page
+   * (the previous params with `url` set to the following page URL). The returned
+   * params are used for the request, e.g. to rotate headers or adjust query
+   * params.
+   */
+  beforePageRequest?: (
+    nextRequestParams: ApiRequestParams,
+    previousPage: ApiResponse<ResponseData>,
+  ) => ApiRequestParams | Promise<ApiRequestParams>;
+  /**
+   * Number of pages requested in parallel once the first page shows how many
+   * pages there are, i.e. when both `nextPageUrl` and `lastPageUrl` carry a
+   * page number in `pageParam`. Pages are still yielded in order. Only applies
+   * to the "next" direction. Defaults to 1.
+   */
+  concurrency?: number;
+  /** Query parameter holding the page number for `concurrency`. Defaults to "page". */
+  pageParam?: string;
+};
+
+/**
+ * Response of fetchAllPages. Metadata such as `linkHeader` and `nextPageUrl`
+ * comes from the last page that was requested.
+ */
+export type PaginatedApiResponse<Item> = ApiResponse<Item[]> & {
+  pageCount: number;
+  totalItems: number;
+};
+
+export type FetchAllPagesOptions<Item> = PaginationOptions<Item[]> & {
+  /**
+   * Drops items whose key was already seen on an earlier page. Useful for
+   * timestamp-based paging, which can return the same item on both sides of a
+   * page boundary.
+   */
+  dedupeBy?: keyof Item | ((item: Item) => unknown);
+};
+
+const defaultMaxRequests = 9999;
+
+const isCancellationError = (error: unknown): boolean =>
+  isApiError(error) && (error.kind === "aborted" || error.kind === "timeout");
+
+const requestPage = async <ResponseData>(
+  requestParams: ApiRequestParams,
+  cancellation: Cancellation,
+): Promise<ApiResponse<ResponseData>> => {
+  const { method, url, data, options } = requestParams;
+
+  try {
+    return await apiRequest<ResponseData>(
+      method,
+      url,
+      data,
+      // the signal and timeout cover the whole walk, so individual pages only get the combined signal
+      cancellation.signal ? { ...options, signal: cancellation.signal, timeoutMs: undefined } : options,
+    );
+  } catch (badResponse) {
+    throw cancellation.isCancelled() ? cancellation.error() : badResponse;
+  }
+};
+
+const getPageNumber = (url: string | null, pageParam: string): number | null => {
+  const match = url?.match(new RegExp(`[?&]${pageParam}=(\\d+)`));
+
+  return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Builds the URLs of all remaining pages from the next and last page URLs, or
+ * returns null when they don't contain page numbers.
+ */
+const getNumberedPageUrls = (
+  nextPageUrl: string,
+  lastPageUrl: string | null,
+  pageParam: string,
+  maxPages: number,
+): string[] | null => {
+  const nextPage = getPageNumber(nextPageUrl, pageParam);
+  const lastPage = getPageNumber(lastPageUrl, pageParam);
+
+  if (nextPage === null || lastPage === null || lastPage < nextPage) return null;
+
+  const pageCount = Math.min(lastPage - nextPage + 1, maxPages);
+
+  return Array.from({ length: pageCount }, (_, index) =>
+    nextPageUrl.replace(new RegExp(`([?&]${pageParam}=)\\d+`), `$1${nextPage + index}`),
+  );
+};
+
+/**
+ * Requests the given pages with up to `concurrency` requests in flight and
+ * yields them in order. When any page is rate limited, the other pages wait
+ * out the same delay before starting their request. Pages still in flight when
+ * the walk ends early are aborted.
+ */
+async function* iterateConcurrentPages<ResponseData>(
+  pageRequestParams: ApiRequestParams[],
+  concurrency: number,
+  cancellation: Cancellation,
+  stopWhen?: (page: ApiResponse<ResponseData>) => boolean,
+): AsyncGenerator<ApiResponse<ResponseData>, void, undefined> {
+  const pendingPages: Promise<ApiResponse<ResponseData>>[] = [];
+  let pausedUntil = 0;
+
+  // the pages get their own signal, so the ones requested ahead can be aborted without cancelling the caller's signal
+  const controller = new AbortController();
+  const abortPages = () => controller.abort();
+  const pagesCancellation: Cancellation = { ...cancellation, signal: controller.signal };
+
+  if (cancellation.signal?.aborted) abortPages();
+  cancellation.signal?.addEventListener("abort", abortPages);
+
+  const pauseOnRateLimit = (retry: RetryEvent) => {
+    if (retry.status === 429) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + retry.delay);
+    }
+  };
+
+  const fetchPage = async (requestParams: ApiRequestParams) => {
+    while (Date.now() < pausedUntil) {
+      await cancellation.sleep(pausedUntil - Date.now());
+    }
+
+    const options = requestParams.options;
+    const retry = {
+      ...options?.retry,
+      onRetry: (event: RetryEvent) => {
+        pauseOnRateLimit(event);
+        options?.retry?.onRetry?.(event);
+      },
+    };
+
+    return requestPage<ResponseData>({ ...requestParams, options: { ...options, retry } }, pagesCancellation);
+  };
+
+  let startedCount = 0;
+
+  try {
+    while (startedCount < pageRequestParams.length || pendingPages.length > 0) {
+      while (pendingPages.length < concurrency && startedCount < pageRequestParams.length) {
+        const page = fetchPage(pageRequestParams[startedCount++]);
+
+        // rejections are rethrown once the page is awaited in order
+        page.catch(() => undefined);
+        pendingPages.push(page);
+      }
+
+      const apiResp = await (pendingPages.shift() as Promise<ApiResponse<ResponseData>>);
+
+      yield apiResp;
+
+      if (stopWhen?.(apiResp)) return;
+    }
+  } finally {
+    // covers breaking out of the loop, stopWhen and a failed page
+    abortPages();
+    cancellation.signal?.removeEventListener("abort", abortPages);
+  }
+}
+
+/**
+ * Lazily requests each page of a paginated endpoint by following the `next`
+ * (or `prev`) link of every response. Pages are only requested as they are
+ * consumed, so breaking out of a `for await` loop stops any further requests.
+ */
+async function* iteratePages<ResponseData>(
+  apiRequestParams: ApiRequestParams,
+  paginationOptions?: PaginationOptions<ResponseData>,
+): AsyncGenerator<ApiResponse<ResponseData>, void, undefined> {
+  const {
+    maxRequests = defaultMaxRequests,
+    direction = "next",
+    stopWhen,
+    beforePageRequest,
+    concurrency = 1,
+    pageParam = "page",
+  } = paginationOptions || {};
+  const cancellation = createCancellation(apiRequestParams.options);
+  let requestParams: ApiRequestParams | null = apiRequestParams;
+  let requestCount = 0;
+
+  try {
+    while (requestParams && requestCount < maxRequests) {
+      cancellation.throwIfCancelled();
+
+      const apiResp: ApiResponse<ResponseData> = await requestPage<ResponseData>(requestParams, cancellation);
+
+      requestCount++;
+
+      yield apiResp;
+
+      const followingPageUrl = direction === "prev" ? apiResp.prevPageUrl : apiResp.nextPageUrl;
+
+      if (followingPageUrl && requestCount < maxRequests && !stopWhen?.(apiResp)) {
+        const nextRequestParams: ApiRequestParams = { ...requestParams, url: followingPageUrl };
+        const pageUrls =
+          concurrency > 1 && direction === "next"
+            ? getNumberedPageUrls(followingPageUrl, apiResp.lastPageUrl, pageParam, maxRequests - requestCount)
+            : null;
+
+        if (pageUrls) {
+          const pageRequestParams = await Promise.all(
+            pageUrls.map((url) => {
+              const params = { ...nextRequestParams, url };
+
+              return beforePageRequest ? beforePageRequest(params, apiResp) : params;
+            }),
+          );
+
+          yield* iterateConcurrentPages<ResponseData>(pageRequestParams, concurrency, cancellation, stopWhen);
+          return;
+        }
+
+        requestParams = beforePageRequest ? await beforePageRequest(nextRequestParams, apiResp) : nextRequestParams;
+      } else {
+        requestParams = null;
+      }
+    }
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+/**
+ * Same as iteratePages, but for endpoints that return an array, yielding each
+ * item of each page instead of the pages themselves.
+ */
+async function* iterateItems<Item>(
+  apiRequestParams: ApiRequestParams,
+  paginationOptions?: PaginationOptions<Item[]>,
+): AsyncGenerator<Item, void, undefined> {
+  for await (const page of iteratePages<Item[]>(apiRequestParams, paginationOptions)) {
+    yield* page.data;
+  }
+}
+
+/**
+ * Requests every page of an endpoint that returns an array and merges them
+ * into a single response.
+ */
+const fetchAllPages = async <Item>(
+  apiRequestParams: ApiRequestParams,
+  fetchAllPagesOptions?: FetchAllPagesOptions<Item>,
+): Promise<PaginatedApiResponse<Item>> => {
+  const { dedupeBy, maxRequests = defaultMaxRequests } = fetchAllPagesOptions || {};
+  const getKey = typeof dedupeBy === "function" ? dedupeBy : (item: Item) => item[dedupeBy as keyof Item];
+  const seenKeys = new Set<unknown>();
+  const items: Item[] = [];
+  let pageCount = 0;
+  let lastPage: ApiResponse<Item[]> | undefined;
+
+  const paginationOptions = { ...fetchAllPagesOptions, maxRequests: Math.max(maxRequests, 1) };
+
+  for await (const page of iteratePages<Item[]>(apiRequestParams, paginationOptions)) {
+    pageCount++;
+    lastPage = page;
+
+    page.data.forEach((item) => {
+      if (typeof dedupeBy !== "undefined") {
+        const key = getKey(item);
+
+        if (seenKeys.has(key)) return;
+        seenKeys.add(key);
+      }
+
+      items.push(item);
+    });
+  }
+
+  return { ...(lastPage as ApiResponse<Item[]>), data: items, pageCount, totalItems: items.length };
+};
+
+const paginatedApiRequest = async <ResponseData>(
+  dataHandler: (data: ResponseData) => void,
+  errorHandler: (errors: string[]) => void,
+  apiRequestParams: ApiRequestParams,
+  maxRequests = defaultMaxRequests,
+  paginationOptions?: Omit<PaginationOptions<ResponseData>, "maxRequests">,
+) => {
+  try {
+    for await (const page of iteratePages<ResponseData>(apiRequestParams, { ...paginationOptions, maxRequests })) {
+      dataHandler(page.data);
+    }
+  } catch (badResponse) {
+    if (isCancellationError(badResponse)) {
+      throw badResponse;
+    } else if (isApiError(badResponse)) {
+      errorHandler(badResponse.errors);
+    } else {
+      throw new Error("Paginated API request failed with unknown error.");
+    }
+  }
+};
+
+export { iteratePages, iterateItems, fetchAllPages, paginatedApiRequest };
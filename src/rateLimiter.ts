@@ -0,0 +1,126 @@
+import { Options } from "./apiUtils";
+
+export type RateLimiterOptions = {
+  /** Requests per second allowed for each key. Defaults to 10, Meraki's per-organization budget. */
+  requestsPerSecond?: number;
+  /** Requests that may be sent back to back before pacing starts. Defaults to `requestsPerSecond`. */
+  burst?: number;
+  /**
+   * Returns the key whose budget a request counts against. Defaults to the
+   * organization ID in the URL, then the API key, then a shared default key.
+   */
+  getKey?: (url: string, options?: Options) => string;
+};
+
+/**
+ * Token bucket limiter that paces requests per organization before they are
+ * sent, instead of waiting for the API to answer with a 429. Pass the same
+ * instance to every request that shares a budget.
+ */
+export type RateLimiter = {
+  getKey: (url: string, options?: Options) => string;
+  /** Resolves once a request for the key may be sent. Requests are released in order. */
+  acquire: (key: string, signal?: AbortSignal) => Promise<void>;
+  /** Holds back every request for the key for the given time, e.g. after a 429. */
+  pause: (key: string, ms: number) => void;
+};
+
+type QueuedRequest = {
+  resolve: () => void;
+};
+
+type Bucket = {
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+  queue: QueuedRequest[];
+  timer: ReturnType<typeof setTimeout> | undefined;
+};
+
+const defaultGetKey = (url: string, options?: Options): string => {
+  const orgId = url.match(/\/organizations\/([^/?#]+)/)?.[1];
+
+  if (orgId) return `organization:${orgId}`;
+  if (options?.auth?.apiKey) return `apiKey:${options.auth.apiKey}`;
+
+  return "default";
+};
+
+const createRateLimiter = (rateLimiterOptions?: RateLimiterOptions): RateLimiter => {
+  const { requestsPerSecond = 10, getKey = defaultGetKey } = rateLimiterOptions || {};
+  const burst = rateLimiterOptions?.burst ?? requestsPerSecond;
+  const msPerToken = 1000 / requestsPerSecond;
+  const buckets = new Map<string, Bucket>();
+
+  const getBucket = (key: string): Bucket => {
+    let bucket = buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: burst, lastRefill: Date.now(), pausedUntil: 0, queue: [], timer: undefined };
+      buckets.set(key, bucket);
+    }
+
+    return bucket;
+  };
+
+  const refill = (bucket: Bucket) => {
+    const now = Date.now();
+
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.lastRefill) / msPerToken);
+    bucket.lastRefill = now;
+  };
+
+  const drain = (bucket: Bucket) => {
+    bucket.timer = undefined;
+    refill(bucket);
+
+    while (bucket.queue.length > 0 && bucket.tokens >= 1 && Date.now() >= bucket.pausedUntil) {
+      bucket.tokens -= 1;
+      (bucket.queue.shift() as QueuedRequest).resolve();
+    }
+
+    if (bucket.queue.length > 0) {
+      const waitForToken = (1 - bucket.tokens) * msPerToken;
+      const waitForPause = bucket.pausedUntil - Date.now();
+
+      bucket.timer = setTimeout(() => drain(bucket), Math.max(waitForToken, waitForPause, 0));
+    }
+  };
+
+  const acquire = (key: string, signal?: AbortSignal): Promise<void> => {
+    const bucket = getBucket(key);
+
+    return new Promise((resolve, reject) => {
+      const abortError = new Error("Rate limited request was aborted");
+
+      if (signal?.aborted) return reject(abortError);
+
+      const request: QueuedRequest = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+
+      const onAbort = () => {
+        bucket.queue = bucket.queue.filter((queued) => queued !== request);
+        reject(abortError);
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      bucket.queue.push(request);
+
+      if (!bucket.timer) drain(bucket);
+    });
+  };
+
+  const pause = (key: string, ms: number) => {
+    const bucket = getBucket(key);
+
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+  };
+
+  return { getKey, acquire, pause };
+};
+
+export { createRateLimiter };
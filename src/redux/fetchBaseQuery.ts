@@ -1,7 +1,8 @@
 import { isPlainObject } from "@reduxjs/toolkit";
 import { FetchArgs, fetchBaseQuery as originalFetchBaseQuery } from "@reduxjs/toolkit/query/react";
-import { isApiError } from "..";
-import { apiRequest } from "../apiUtils";
+import { apiRequest, toApiError, RetryEvent, RetryOptions } from "../apiUtils";
+import { Middleware } from "../middleware";
+import { RateLimiter } from "../rateLimiter";
 
 /**
  * These are the headers that redux passes to the fetch wrapper created by
@@ -40,6 +41,24 @@ type ApiRequestMethod = ApiRequestOpts[0];
 
 type QueryParam = string | number;
 
+/**
+ * Options that endpoints can pass through `extraOptions` to override the
+ * options of fetchBaseQuery for their requests.
+ */
+export type FetchBaseQueryExtraOptions = {
+  retry?: RetryOptions;
+};
+
+/** Added to the `meta` of every result, whether the request succeeded or not. */
+export type FetchBaseQueryRetryMeta = {
+  /** Number of requests made, i.e. 1 plus the number of retries. */
+  attempts: number;
+  /** Every retry that was made, with its delay and the status that caused it. */
+  retries: RetryEvent[];
+  /** Time in ms spent waiting between retries. */
+  totalWait: number;
+};
+
 /**
  * fetchBaseQuery returns a fetch-like wrapper that is used internally by Redux.
  *
@@ -73,11 +92,37 @@ export function fetchBaseQuery(baseOpts: {
     headers: HeadersInit,
     api: Pick<FetchWrapperApiOpts, "getState" | "extra" | "endpoint" | "type" | "forced">,
   ) => Promise<void>;
+  /**
+   * Optionally pace all requests made by this base query. Share the instance
+   * with other apiRequest calls to keep them within the same budget.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Optionally wrap every fetch made by this base query, e.g. for logging or
+   * tracing. See Middleware.
+   */
+  middleware?: Middleware[];
+  /**
+   * Optionally control how rate limited and failed requests are retried.
+   * Endpoints can override these options through `extraOptions.retry`.
+   */
+  retry?: RetryOptions;
 }) {
-  const { baseUrl, transformHeaders = (x) => x, pauseUntilResolved, paramsSerializer } = baseOpts;
-
-  return async (...args: FetchWrapperOpts) => {
-    const [fetchArg, api] = args;
+  const {
+    baseUrl,
+    transformHeaders = (x) => x,
+    pauseUntilResolved,
+    paramsSerializer,
+    rateLimiter,
+    middleware,
+    retry: baseRetry,
+  } = baseOpts;
+
+  return async (
+    fetchArg: FetchWrapperOpts[0],
+    api: FetchWrapperApiOpts,
+    extraOptions: FetchBaseQueryExtraOptions = {},
+  ) => {
     const { signal, getState, extra, endpoint, forced = false, type } = api;
 
     let { url } = typeof fetchArg === "string" ? { url: fetchArg } : fetchArg;
@@ -118,27 +163,39 @@ export function fetchBaseQuery(baseOpts: {
 
     if (pauseUntilResolved) await pauseUntilResolved(config.headers ?? {}, { getState, extra, endpoint, forced, type });
 
+    const retries: RetryEvent[] = [];
+    const endpointRetry = extraOptions.retry;
+    const retry: RetryOptions = {
+      ...baseRetry,
+      ...endpointRetry,
+      onRetry: (event) => {
+        retries.push(event);
+        baseRetry?.onRetry?.(event);
+        endpointRetry?.onRetry?.(event);
+      },
+    };
+    const getRetryMeta = (): FetchBaseQueryRetryMeta => ({
+      attempts: retries.length + 1,
+      retries,
+      totalWait: retries.reduce((total, { delay }) => total + delay, 0),
+    });
+
     try {
       const { data, ...meta } = await apiRequest(method as ApiRequestMethod, `${baseUrl}${url}`, body, {
         fetchOptions: config,
+        rateLimiter,
+        middleware,
+        retry,
       });
 
       return {
         data,
-        meta,
+        meta: { ...meta, ...getRetryMeta() },
       };
     } catch (error) {
-      if (!isApiError(error)) {
-        console.warn("The following is not a recognized error returned by an endpoint", error);
-
-        return {
-          error: {
-            errors: [JSON.stringify(error, null, " ")],
-          },
-        };
-      }
       return {
-        error,
+        error: toApiError(error),
+        meta: getRetryMeta(),
       };
     }
   };
@@ -0,0 +1,71 @@
+import { Action, actionBatchLimits, createActionBatchBuilder } from "../src";
+
+describe("ActionBatchBuilder", () => {
+  it("builds the payload that is submitted", () => {
+    const payload = createActionBatchBuilder()
+      .create("/networks/N_1/appliance/vlans", { id: 10, name: "Cameras" })
+      .update("/devices/QXXX-XXXX-XXXX/switch/ports/3", { enabled: true })
+      .destroy("/networks/N_1/appliance/vlans/20")
+      .build();
+
+    expect(payload).toEqual({
+      confirmed: true,
+      synchronous: false,
+      actions: [
+        { resource: "/networks/N_1/appliance/vlans", operation: "create", body: { id: 10, name: "Cameras" } },
+        { resource: "/devices/QXXX-XXXX-XXXX/switch/ports/3", operation: "update", body: { enabled: true } },
+        { resource: "/networks/N_1/appliance/vlans/20", operation: "destroy", body: {} },
+      ],
+    });
+  });
+
+  it("builds synchronous batches", () => {
+    const payload = createActionBatchBuilder({ synchronous: true }).update("/networks/N_1", { name: "HQ" }).build();
+
+    expect(payload.synchronous).toBe(true);
+  });
+
+  it("validates added actions", () => {
+    const builder = createActionBatchBuilder();
+
+    builder.add({ resource: "/organizations/123/adaptivePolicy/groups", operation: "create", body: { name: "IoT" } });
+
+    expect(() =>
+      builder.add({ resource: "/networks/N_1", operation: "rename", body: {} } as unknown as Action),
+    ).toThrow("Unsupported action batch operation");
+    expect(builder.actions()).toHaveLength(1);
+  });
+
+  it.each(["networks/N_1", "/users/1", "/networks/", "/networks/N_1?perPage=5", null])(
+    "rejects the resource %p",
+    (resource) => {
+      const builder = createActionBatchBuilder();
+
+      expect(() => builder.add({ resource, operation: "update", body: {} })).toThrow("Invalid action batch resource");
+    },
+  );
+
+  it.each([
+    [false, actionBatchLimits.asynchronous],
+    [true, actionBatchLimits.synchronous],
+  ])("rejects actions over the limit when synchronous is %p", (synchronous, limit) => {
+    const builder = createActionBatchBuilder({ synchronous });
+
+    for (let port = 1; port <= limit; port++) {
+      builder.update(`/devices/QXXX-XXXX-XXXX/switch/ports/${port}`, { enabled: true });
+    }
+
+    expect(() => builder.update("/devices/QXXX-XXXX-XXXX/switch/ports/0", { enabled: true })).toThrow(
+      `at most ${limit} actions`,
+    );
+    expect(builder.build().actions).toHaveLength(limit);
+  });
+
+  it("returns copies of the actions", () => {
+    const builder = createActionBatchBuilder().update("/networks/N_1", { name: "HQ" });
+
+    builder.actions().pop();
+
+    expect(builder.actions()).toHaveLength(1);
+  });
+});
@@ -1,7 +1,16 @@
-import { batchedApiRequest } from "../src/actionBatchHelpers";
+import {
+  batchedApiRequest,
+  deleteActionBatch,
+  getActionBatch,
+  listActionBatches,
+  previewActionBatch,
+  runActionBatches,
+  waitForActionBatch,
+  Action,
+} from "../src/actionBatchHelpers";
 import { apiRequest } from "../src/apiUtils";
 
-jest.mock("../src/apiUtils");
+jest.mock("../src/apiUtils", () => ({ ...jest.requireActual("../src/apiUtils"), apiRequest: jest.fn() }));
 const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
 
 describe("ActionBatchHelpers", () => {
@@ -76,7 +85,7 @@ describe("ActionBatchHelpers", () => {
       }
     });
 
-    it("returns an error when the max polling time limit is reached", async () => {
+    it("resolves with a pending result when the max polling time limit is reached", async () => {
       mockedApiRequest.mockResolvedValue({
         data: {
           id: "1234",
@@ -88,12 +97,9 @@ describe("ActionBatchHelpers", () => {
         },
       });
 
-      try {
-        await batchedApiRequest(orgId, actions, authOptions, { maxPollingTime: 1 });
-      } catch (err: any) {
-        expect(err.errors).not.toBeNull();
-        expect(err.errors).toEqual(["Your updates have been submitted and are still pending. Try reloading the page."]);
-      }
+      const result = await batchedApiRequest(orgId, actions, authOptions, { maxPollingTime: 1 });
+
+      expect(result).toMatchObject({ state: "pending", batchId: "1234", data: { id: "1234" } });
     });
     it("polls the status when the initial status is pending", async () => {
       mockedApiRequest.mockResolvedValue({
@@ -106,12 +112,110 @@ describe("ActionBatchHelpers", () => {
           },
         },
       });
-      try {
-        await batchedApiRequest(orgId, actions, authOptions, { maxPollingTime: 5 });
-      } catch (err: unknown) {
-        expect(mockedApiRequest.mock.calls.length).toBeGreaterThan(1);
-        expect(mockedApiRequest.mock.calls).toContainEqual(["GET", "/api/v1/organizations/2/actionBatches/1234"]);
-      }
+
+      const result = await batchedApiRequest(orgId, actions, authOptions, { maxPollingTime: 5, interval: 1 });
+
+      expect(result.state).toEqual("pending");
+      expect(mockedApiRequest.mock.calls.length).toBeGreaterThan(1);
+      expect(mockedApiRequest.mock.calls[1]).toEqual([
+        "GET",
+        "/api/v1/organizations/2/actionBatches/1234",
+        undefined,
+        authOptions,
+      ]);
+    });
+
+    describe("polling", () => {
+      const pendingBatch = { data: { id: "1234", status: { completed: false, failed: false, errors: [] } } };
+      const completedBatch = { data: { id: "1234", status: { completed: true, failed: false, errors: [] } } };
+
+      it("sends the caller's auth with every poll", async () => {
+        const apiKeyOptions = { auth: { apiKey: "banana" } };
+        mockedApiRequest.mockResolvedValueOnce(pendingBatch).mockResolvedValue(completedBatch);
+
+        const result = await batchedApiRequest(orgId, actions, apiKeyOptions, { interval: 1 });
+
+        expect(result.state).toEqual("completed");
+        expect(mockedApiRequest.mock.calls[1]).toEqual([
+          "GET",
+          "/api/v1/organizations/2/actionBatches/1234",
+          undefined,
+          apiKeyOptions,
+        ]);
+      });
+
+      it("reports the status after each poll", async () => {
+        const onProgress = jest.fn();
+        mockedApiRequest
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValue(completedBatch);
+
+        await batchedApiRequest(orgId, actions, authOptions, { interval: 1, onProgress });
+
+        expect(onProgress.mock.calls).toEqual([[pendingBatch.data], [completedBatch.data]]);
+      });
+
+      it("backs off between polls up to the max interval", async () => {
+        const sleeps: number[] = [];
+        jest.spyOn(global, "setTimeout").mockImplementation(((callback: () => void, ms: number) => {
+          sleeps.push(ms);
+          callback();
+        }) as typeof setTimeout);
+        mockedApiRequest
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValueOnce(pendingBatch)
+          .mockResolvedValue(completedBatch);
+
+        try {
+          await batchedApiRequest(orgId, actions, authOptions, { interval: 100, backoffFactor: 2, maxInterval: 300 });
+        } finally {
+          jest.mocked(setTimeout).mockRestore();
+        }
+
+        expect(sleeps).toEqual([100, 200, 300]);
+      });
+    });
+
+    it("stops polling when the signal is aborted", async () => {
+      const controller = new AbortController();
+      mockedApiRequest.mockImplementation(() => {
+        controller.abort();
+
+        return Promise.resolve({ data: { id: "1234", status: { completed: false, failed: false, errors: [] } } });
+      });
+
+      await expect(
+        batchedApiRequest(orgId, actions, { ...authOptions, signal: controller.signal }, { interval: 1000 }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+      expect(mockedApiRequest.mock.calls.length).toEqual(1);
+    });
+
+    it("rejects with a timeout error when timeoutMs elapses while polling", async () => {
+      mockedApiRequest.mockResolvedValue({
+        data: { id: "1234", status: { completed: false, failed: false, errors: [] } },
+      });
+
+      await expect(
+        batchedApiRequest(orgId, actions, { ...authOptions, timeoutMs: 20 }, { interval: 5 }),
+      ).rejects.toMatchObject({ kind: "timeout", statusText: "Timeout" });
+      expect(mockedApiRequest.mock.calls[1][3]).toEqual({
+        ...authOptions,
+        signal: expect.any(AbortSignal),
+        timeoutMs: undefined,
+      });
+    });
+
+    it("rejects batches over the limit without submitting them", async () => {
+      const tooManyActions = Array.from({ length: 21 }, () => VALID_ACTION);
+
+      await expect(batchedApiRequest(orgId, tooManyActions, authOptions, { synchronous: true })).rejects.toMatchObject({
+        errors: ["Synchronous action batches can contain at most 20 actions, got 21"],
+        kind: "validation",
+      });
+      expect(mockedApiRequest).not.toHaveBeenCalled();
     });
 
     it("stops polling when an error is returned", async () => {
@@ -140,8 +244,353 @@ describe("ActionBatchHelpers", () => {
         await batchedApiRequest(orgId, actions, authOptions, { maxPollingTime: 5 });
       } catch (err: unknown) {
         expect(mockedApiRequest.mock.calls.length).toEqual(2); // one for the initial POST, and one status update
-        expect(err).toMatchObject({ errors: ["some error"] });
+        expect(err).toMatchObject({
+          errors: ["some error"],
+          kind: "actionBatchFailed",
+          request: { method: "GET", url: `/api/v1/organizations/${orgId}/actionBatches/1234` },
+        });
       }
     });
   });
+
+  describe("runActionBatches", () => {
+    const orgId = "2";
+    const authOptions = { auth: { apiKey: "banana" } };
+    const makeActions = (count: number): Action[] =>
+      Array.from({ length: count }, (_, port) => ({
+        resource: `/devices/QXXX-XXXX-XXXX/switchPorts/${port}`,
+        operation: "update",
+        body: { enabled: true },
+      }));
+    const batchStatus = (status: Partial<{ completed: boolean; failed: boolean; errors: string[] }>) => ({
+      data: { id: "1234", status: { completed: false, failed: false, errors: [], ...status } },
+      statusCode: 201,
+      statusText: "Created",
+    });
+
+    beforeEach(() => {
+      mockedApiRequest.mockReset();
+    });
+
+    it("splits the actions into batches of the maximum size", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus({ completed: true }));
+      const actions = makeActions(250);
+
+      const report = await runActionBatches(orgId, actions, authOptions);
+
+      const submitted = mockedApiRequest.mock.calls.map(([, , data]) => data.actions.length);
+      expect(submitted).toEqual([100, 100, 50]);
+      expect(report.batches.map((batch) => batch.offset)).toEqual([0, 100, 200]);
+      expect(report.batches.every((batch) => batch.status === "succeeded")).toBe(true);
+      expect(report.succeeded).toEqual(actions);
+      expect(mockedApiRequest.mock.calls[0][1]).toEqual(`/api/v1/organizations/${orgId}/actionBatches`);
+      expect(mockedApiRequest.mock.calls[0][3]).toEqual(authOptions);
+    });
+
+    it("keeps batches within the synchronous limit", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus({ completed: true }));
+
+      await runActionBatches(orgId, makeActions(30), authOptions, { synchronous: true, batchSize: 50 });
+
+      const submitted = mockedApiRequest.mock.calls.map(([, , data]) => [data.actions.length, data.synchronous]);
+      expect(submitted).toEqual([
+        [20, true],
+        [10, true],
+      ]);
+    });
+
+    it.each([
+      [{}, 5],
+      [{ concurrency: 2 }, 2],
+      [{ concurrency: 10 }, 5],
+    ])("runs batches with %p at most %p at a time", async (runOpts, expectedRunning) => {
+      let running = 0;
+      let maxRunning = 0;
+      mockedApiRequest.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+
+        return batchStatus({ completed: true });
+      });
+
+      const report = await runActionBatches(orgId, makeActions(12), authOptions, { batchSize: 1, ...runOpts });
+
+      expect(report.succeeded).toHaveLength(12);
+      expect(maxRunning).toEqual(expectedRunning);
+    });
+
+    it("reports failed and pending batches without stopping the others", async () => {
+      const actions = makeActions(3);
+      mockedApiRequest.mockImplementation(async (method, url, data) => {
+        if (method === "GET") return batchStatus({});
+
+        const [action] = data.actions;
+
+        if (action === actions[0]) return batchStatus({ failed: true, errors: ["Port does not exist"] });
+        if (action === actions[1]) return batchStatus({});
+
+        return batchStatus({ completed: true });
+      });
+
+      const report = await runActionBatches(orgId, actions, authOptions, {
+        batchSize: 1,
+        maxPollingTime: 5,
+        interval: 1,
+      });
+
+      expect(report.batches.map((batch) => batch.status)).toEqual(["failed", "pending", "succeeded"]);
+      expect(report.batches[0].error).toMatchObject({ errors: ["Port does not exist"], kind: "actionBatchFailed" });
+      expect(report.batches[2].response?.id).toEqual("1234");
+      expect(report).toMatchObject({ failed: [actions[0]], pending: [actions[1]], succeeded: [actions[2]] });
+    });
+
+    it("reports submitted batches as pending with their ID when they time out", async () => {
+      let submittedCount = 0;
+      mockedApiRequest.mockImplementation(async (method, url) => {
+        const id = method === "POST" ? `batch-${++submittedCount}` : url.split("/").pop();
+
+        return { ...batchStatus({}), data: { id, status: { completed: false, failed: false, errors: [] } } };
+      });
+
+      const report = await runActionBatches(
+        orgId,
+        makeActions(150),
+        { ...authOptions, timeoutMs: 30 },
+        { interval: 50 },
+      );
+
+      expect(report.batches.map(({ status, batchId }) => [status, batchId])).toEqual([
+        ["pending", "batch-1"],
+        ["pending", "batch-2"],
+      ]);
+      expect(report.pending).toHaveLength(150);
+      expect(report.failed).toHaveLength(0);
+    });
+
+    it("keeps the ID of a batch that was aborted before it was polled", async () => {
+      const controller = new AbortController();
+      mockedApiRequest.mockImplementation(async () => {
+        controller.abort();
+
+        return batchStatus({});
+      });
+
+      const report = await runActionBatches(orgId, makeActions(1), { ...authOptions, signal: controller.signal });
+
+      expect(report.batches[0]).toMatchObject({ status: "pending", batchId: "1234", response: { id: "1234" } });
+    });
+
+    it("reports batches that were aborted while they were submitted as unknown", async () => {
+      const controller = new AbortController();
+      const aborted = {
+        errors: ["The request was aborted"],
+        ok: false,
+        statusCode: 0,
+        statusText: "",
+        kind: "aborted",
+      };
+      mockedApiRequest.mockImplementation(async () => {
+        controller.abort();
+
+        throw aborted;
+      });
+      const actions = makeActions(1);
+
+      const report = await runActionBatches(orgId, actions, { ...authOptions, signal: controller.signal });
+
+      expect(report.batches[0]).toMatchObject({ status: "unknown", error: { kind: "aborted" } });
+      expect(report.batches[0].batchId).toBeUndefined();
+      expect(report).toMatchObject({ unknown: actions, failed: [] });
+    });
+
+    it("stops starting batches once the run is aborted", async () => {
+      const controller = new AbortController();
+      const actions = makeActions(3);
+      mockedApiRequest.mockImplementation(async (method) => {
+        if (method === "GET") controller.abort();
+
+        return batchStatus({});
+      });
+
+      const report = await runActionBatches(
+        orgId,
+        actions,
+        { ...authOptions, signal: controller.signal },
+        { batchSize: 1, concurrency: 1, interval: 1 },
+      );
+
+      expect(report.batches.map((batch) => batch.status)).toEqual(["pending", "notSubmitted", "notSubmitted"]);
+      expect(report).toMatchObject({ pending: [actions[0]], notSubmitted: [actions[1], actions[2]], failed: [] });
+      expect(mockedApiRequest.mock.calls.filter(([method]) => method === "POST")).toHaveLength(1);
+    });
+  });
+
+  describe("existing action batches", () => {
+    const orgId = "2";
+    const authOptions = { auth: { apiKey: "banana" }, baseUrl: "https://api.meraki.com/api/v1" };
+    const batchUrl = "https://api.meraki.com/api/v1/organizations/2/actionBatches";
+    const batchStatus = (status: Partial<{ completed: boolean; failed: boolean; errors: string[] }>) => ({
+      data: { id: "1234", status: { completed: false, failed: false, errors: [], ...status } },
+      statusCode: 200,
+      statusText: "OK",
+    });
+
+    beforeEach(() => {
+      mockedApiRequest.mockReset();
+    });
+
+    it("fetches an action batch by its ID", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus({ completed: true }));
+
+      const response = await getActionBatch(orgId, "1234", authOptions);
+
+      expect(response.data.id).toEqual("1234");
+      expect(mockedApiRequest).toHaveBeenCalledWith("GET", `${batchUrl}/1234`, undefined, authOptions);
+    });
+
+    it("lists action batches", async () => {
+      mockedApiRequest.mockResolvedValue({ data: [] });
+
+      await listActionBatches(orgId, authOptions);
+      await listActionBatches(orgId, authOptions, { status: "pending" });
+
+      expect(mockedApiRequest.mock.calls).toEqual([
+        ["GET", batchUrl, undefined, authOptions],
+        ["GET", `${batchUrl}?status=pending`, undefined, authOptions],
+      ]);
+    });
+
+    it("waits for an existing action batch to complete", async () => {
+      const onProgress = jest.fn();
+      mockedApiRequest.mockResolvedValueOnce(batchStatus({})).mockResolvedValue(batchStatus({ completed: true }));
+
+      const result = await waitForActionBatch(orgId, "1234", authOptions, { interval: 1, onProgress });
+
+      expect(result.state).toEqual("completed");
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(mockedApiRequest.mock.calls).toEqual([
+        ["GET", `${batchUrl}/1234`, undefined, authOptions],
+        ["GET", `${batchUrl}/1234`, undefined, authOptions],
+      ]);
+    });
+
+    it("resolves with the batch ID when it is still pending", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus({}));
+
+      const result = await waitForActionBatch(orgId, "1234", authOptions, { interval: 1, maxPollingTime: 5 });
+
+      expect(result).toMatchObject({ state: "pending", batchId: "1234" });
+    });
+
+    it("rejects when the existing action batch failed", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus({ failed: true, errors: ["VLAN already exists"] }));
+
+      await expect(waitForActionBatch(orgId, "1234", authOptions)).rejects.toMatchObject({
+        errors: ["VLAN already exists"],
+        kind: "actionBatchFailed",
+      });
+    });
+
+    it("stops waiting when the signal is aborted", async () => {
+      const controller = new AbortController();
+      mockedApiRequest.mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve(batchStatus({}));
+      });
+
+      await expect(
+        waitForActionBatch(orgId, "1234", { ...authOptions, signal: controller.signal }, { interval: 1 }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+      expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("deletes an action batch", async () => {
+      mockedApiRequest.mockResolvedValue({ data: {}, statusCode: 204 });
+
+      await deleteActionBatch(orgId, "1234", authOptions);
+
+      expect(mockedApiRequest).toHaveBeenCalledWith("DELETE", `${batchUrl}/1234`, undefined, authOptions);
+    });
+  });
+
+  describe("previewActionBatch", () => {
+    const orgId = "2";
+    const authOptions = { auth: { apiKey: "banana" } };
+    const batchesUrl = "/api/v1/organizations/2/actionBatches";
+    const actions: Action[] = [{ resource: "/networks/N_1", operation: "update", body: { name: "HQ" } }];
+    const batchStatus = (
+      confirmed: boolean,
+      status: Partial<{ completed: boolean; failed: boolean; errors: string[] }>,
+    ) => ({
+      data: { id: "1234", confirmed, actions, status: { completed: false, failed: false, errors: [], ...status } },
+      statusCode: 201,
+      statusText: "Created",
+    });
+
+    beforeEach(() => {
+      mockedApiRequest.mockReset();
+    });
+
+    it("submits the batch without confirming it", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus(false, {}));
+
+      const preview = await previewActionBatch(orgId, actions, authOptions, { synchronous: true });
+
+      expect(preview.response.data).toMatchObject({ id: "1234", confirmed: false });
+      expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+      expect(mockedApiRequest).toHaveBeenCalledWith(
+        "POST",
+        batchesUrl,
+        { confirmed: false, synchronous: true, actions },
+        authOptions,
+      );
+    });
+
+    it("confirms the batch and polls it until it ran", async () => {
+      mockedApiRequest
+        .mockResolvedValueOnce(batchStatus(false, {}))
+        .mockResolvedValueOnce(batchStatus(true, {}))
+        .mockResolvedValue(batchStatus(true, { completed: true }));
+
+      const preview = await previewActionBatch(orgId, actions, authOptions);
+      const result = await preview.confirm({ interval: 1 });
+
+      expect(result.state).toEqual("completed");
+      expect(mockedApiRequest.mock.calls.slice(1)).toEqual([
+        ["PUT", `${batchesUrl}/1234`, { confirmed: true }, authOptions],
+        ["GET", `${batchesUrl}/1234`, undefined, authOptions],
+      ]);
+    });
+
+    it("discards the batch", async () => {
+      mockedApiRequest.mockResolvedValueOnce(batchStatus(false, {})).mockResolvedValue({ data: {}, statusCode: 204 });
+
+      const preview = await previewActionBatch(orgId, actions, authOptions);
+      await preview.discard();
+
+      expect(mockedApiRequest).toHaveBeenLastCalledWith("DELETE", `${batchesUrl}/1234`, undefined, authOptions);
+    });
+
+    it("rejects batches that Meraki marks as failed", async () => {
+      mockedApiRequest.mockResolvedValue(batchStatus(false, { failed: true, errors: ["Network not found"] }));
+
+      await expect(previewActionBatch(orgId, actions, authOptions)).rejects.toMatchObject({
+        errors: ["Network not found"],
+        kind: "actionBatchFailed",
+      });
+    });
+
+    it("rejects batches over the limit without submitting them", async () => {
+      await expect(
+        previewActionBatch(
+          orgId,
+          Array.from({ length: 101 }, () => actions[0]),
+          authOptions,
+        ),
+      ).rejects.toMatchObject({ kind: "validation" });
+      expect(mockedApiRequest).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { isActionBatchError, mapActionBatchResults, Action, ActionBatchResponse } from "../src";
+
+describe("ActionBatchResults", () => {
+  const actions: Action[] = [
+    { resource: "/networks/N_1/appliance/vlans", operation: "create", body: { id: 10, name: "Cameras" } },
+    { resource: "/networks/N_1", operation: "update", body: { name: "HQ" } },
+    { resource: "/networks/N_1/appliance/vlans", operation: "create", body: { id: 20, name: "Guests" } },
+  ];
+  const makeBatch = (status: Partial<ActionBatchResponse["status"]>): ActionBatchResponse => ({
+    id: "1234",
+    organizationId: "2",
+    confirmed: true,
+    synchronous: false,
+    actions,
+    status: { completed: false, failed: false, errors: [], ...status },
+  });
+
+  describe("mapActionBatchResults", () => {
+    it("matches created resources to the create actions", () => {
+      const batch = makeBatch({
+        completed: true,
+        createdResources: [
+          { id: "10", uri: "/networks/N_1/appliance/vlans/10" },
+          { id: "20", uri: "/networks/N_1/appliance/vlans/20" },
+        ],
+      });
+
+      expect(mapActionBatchResults(batch)).toEqual([
+        {
+          action: actions[0],
+          index: 0,
+          status: "succeeded",
+          createdResource: { id: "10", uri: "/networks/N_1/appliance/vlans/10" },
+        },
+        { action: actions[1], index: 1, status: "succeeded" },
+        {
+          action: actions[2],
+          index: 2,
+          status: "succeeded",
+          createdResource: { id: "20", uri: "/networks/N_1/appliance/vlans/20" },
+        },
+      ]);
+    });
+
+    it("marks the failed action and leaves the others unexecuted", () => {
+      const batch = makeBatch({ failed: true, errors: ["Error in action at index 1: Name has already been taken"] });
+
+      expect(mapActionBatchResults(batch).map(({ status }) => status)).toEqual([
+        "notExecuted",
+        "failed",
+        "notExecuted",
+      ]);
+      expect(mapActionBatchResults(batch)[1]).toMatchObject({
+        error: "Error in action at index 1: Name has already been taken",
+      });
+    });
+
+    it("marks every action as failed when the errors don't name one", () => {
+      const batch = makeBatch({ failed: true, errors: ["Something went wrong"] });
+
+      expect(mapActionBatchResults(batch)).toEqual(
+        actions.map((action, index) => ({ action, index, status: "failed", error: "Something went wrong" })),
+      );
+    });
+
+    it("marks every action as failed with a message when the batch has no errors", () => {
+      const batch = makeBatch({ failed: true, errors: [] });
+
+      expect(mapActionBatchResults(batch)).toEqual(
+        actions.map((action, index) => ({
+          action,
+          index,
+          status: "failed",
+          error: "The action batch failed without an error message",
+        })),
+      );
+    });
+
+    it("leaves the actions of a pending batch unexecuted", () => {
+      expect(mapActionBatchResults(makeBatch({})).every(({ status }) => status === "notExecuted")).toBe(true);
+    });
+
+    it("accepts the error of a failed batch", () => {
+      const error = {
+        errors: ["Error in action at index 2: VLAN already exists"],
+        ok: false as const,
+        statusCode: 200,
+        statusText: "OK",
+        kind: "actionBatchFailed" as const,
+        body: makeBatch({ failed: true, errors: ["Error in action at index 2: VLAN already exists"] }),
+      };
+
+      expect(isActionBatchError(error)).toBe(true);
+      expect(mapActionBatchResults(error)[2]).toMatchObject({ status: "failed", error: error.errors[0] });
+    });
+  });
+
+  describe("isActionBatchError", () => {
+    it("is false for other errors", () => {
+      expect(isActionBatchError({ errors: [], ok: false, statusCode: 500, statusText: "", kind: "server" })).toBe(
+        false,
+      );
+      expect(isActionBatchError(new Error("nope"))).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { apiRequest, isApiError, paginatedApiRequest } from "../src";
+import { apiRequest, isApiError, paginatedApiRequest, toApiError } from "../src";
+
+const realSetTimeout = global.setTimeout;
 
 describe("ApiUtils", () => {
   describe("apiRequest", () => {
@@ -359,9 +361,10 @@ describe("ApiUtils", () => {
             await apiRequest("GET", "www.bad-url.com");
           } catch (badResponse: any) {
             expect(badResponse.ok).toEqual(false);
-            expect(badResponse.errors).toEqual(["Could not parse errors from response"]);
+            expect(badResponse.errors).toEqual(["Request failed with status 500 (Internal server error)"]);
             expect(badResponse.statusCode).toEqual(500);
             expect(badResponse.statusText).toEqual("Internal server error");
+            expect(badResponse.kind).toEqual("server");
           }
         });
       });
@@ -484,6 +487,344 @@ describe("ApiUtils", () => {
         expect(setTimeout).toHaveBeenNthCalledWith(3, expect.any(Function), 1.5 ** 3 * 1000);
       });
     });
+
+    describe("retry options", () => {
+      const successfulResponse = {
+        json: () => Promise.resolve({ id: "1234" }),
+        status: 200,
+        ok: true,
+      };
+      const serverErrorResponse = (status: number) => ({
+        json: () => ({ errors: ["Bad gateway"] }),
+        status,
+        ok: false,
+      });
+
+      beforeEach(() => {
+        Math.random = jest.fn(() => 0);
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        global.setTimeout = jest.fn((f) => f());
+      });
+
+      afterEach(() => {
+        jest.clearAllMocks();
+      });
+
+      it("does not retry 5xx responses by default", async () => {
+        global.fetch = jest.fn().mockResolvedValue(serverErrorResponse(502)) as jest.Mock;
+        try {
+          await apiRequest("GET", "www.flaky.com");
+        } catch (badResponse: any) {
+          expect(fetch).toHaveBeenCalledTimes(1);
+          expect(badResponse.statusCode).toEqual(502);
+        }
+      });
+
+      it("retries the configured status codes", async () => {
+        global.fetch = jest
+          .fn()
+          .mockResolvedValueOnce(serverErrorResponse(502))
+          .mockResolvedValueOnce(serverErrorResponse(504))
+          .mockResolvedValueOnce(successfulResponse) as jest.Mock;
+        const apiResponse = await apiRequest("GET", "www.flaky.com", undefined, {
+          retry: { retryOnStatus: [502, 503, 504] },
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(3);
+        expect(apiResponse.ok).toBe(true);
+      });
+
+      it("stops after maxRetries", async () => {
+        global.fetch = jest.fn().mockResolvedValue(serverErrorResponse(503)) as jest.Mock;
+        try {
+          await apiRequest("GET", "www.flaky.com", undefined, { retry: { retryOnStatus: [503], maxRetries: 2 } });
+        } catch (badResponse: any) {
+          expect(fetch).toHaveBeenCalledTimes(3);
+          expect(badResponse.statusCode).toEqual(503);
+        }
+      });
+
+      it("retries network errors when retryOnNetworkError is set", async () => {
+        global.fetch = jest
+          .fn()
+          .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+          .mockResolvedValueOnce(successfulResponse) as jest.Mock;
+        const apiResponse = await apiRequest("GET", "www.flaky.com", undefined, {
+          retry: { retryOnNetworkError: true },
+        });
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+        expect(apiResponse.ok).toBe(true);
+      });
+
+      it("rethrows network errors once retries are exhausted", async () => {
+        global.fetch = jest.fn().mockRejectedValue(new TypeError("Failed to fetch")) as jest.Mock;
+
+        await expect(
+          apiRequest("GET", "www.flaky.com", undefined, { retry: { retryOnNetworkError: true, maxRetries: 1 } }),
+        ).rejects.toMatchObject({ kind: "network", errors: ["Failed to fetch"], statusCode: 0, retryCount: 1 });
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      it("does not retry errors other than network failures", async () => {
+        const middleware = jest.fn(() => Promise.reject(new Error("Tracing failed")));
+        global.fetch = jest.fn().mockResolvedValue(successfulResponse) as jest.Mock;
+
+        await expect(
+          apiRequest("GET", "www.flaky.com", undefined, {
+            middleware: [middleware],
+            retry: { retryOnNetworkError: true },
+          }),
+        ).rejects.toMatchObject({ kind: "unknown", errors: ["Tracing failed"], retryCount: 0 });
+        expect(middleware).toHaveBeenCalledTimes(1);
+      });
+
+      it("uses the provided backoff and jitter", async () => {
+        Math.random = jest.fn(() => 0.5);
+        global.fetch = jest
+          .fn()
+          .mockResolvedValueOnce(serverErrorResponse(503))
+          .mockResolvedValueOnce(serverErrorResponse(503))
+          .mockResolvedValueOnce(successfulResponse) as jest.Mock;
+        await apiRequest("GET", "www.flaky.com", undefined, {
+          retry: { retryOnStatus: [503], backoff: (attempt) => (attempt + 1) * 100, jitter: 10 },
+        });
+
+        expect(setTimeout).toHaveBeenNthCalledWith(1, expect.any(Function), 105);
+        expect(setTimeout).toHaveBeenNthCalledWith(2, expect.any(Function), 205);
+      });
+
+      it("stops retrying once maxTotalWait would be exceeded", async () => {
+        global.fetch = jest.fn().mockResolvedValue(serverErrorResponse(503)) as jest.Mock;
+        try {
+          await apiRequest("GET", "www.flaky.com", undefined, {
+            retry: { retryOnStatus: [503], backoff: () => 1000, jitter: 0, maxTotalWait: 2500 },
+          });
+        } catch (badResponse: any) {
+          expect(fetch).toHaveBeenCalledTimes(3);
+          expect(setTimeout).toHaveBeenCalledTimes(2);
+        }
+      });
+    });
+  });
+
+  describe("cancellation", () => {
+    const rateLimitedResponse = {
+      json: () => ({ errors: ["Rate limit error"] }),
+      status: 429,
+      ok: false,
+      headers: { get: (header: string) => (header === "Retry-After" ? "100" : null) },
+    };
+
+    beforeEach(() => {
+      global.setTimeout = realSetTimeout;
+    });
+
+    it("rejects without fetching when the signal is already aborted", async () => {
+      global.fetch = jest.fn() as jest.Mock;
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(apiRequest("GET", "www.fakeurl.com", undefined, { signal: controller.signal })).rejects.toEqual({
+        errors: ["The request was aborted"],
+        ok: false,
+        statusCode: 0,
+        statusText: "Aborted",
+        kind: "aborted",
+        request: { method: "GET", url: "www.fakeurl.com" },
+        retryCount: 0,
+      });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("passes the signal on to fetch", async () => {
+      global.fetch = jest.fn().mockResolvedValue({ json: () => Promise.resolve({}), status: 200, ok: true });
+      const controller = new AbortController();
+
+      await apiRequest("GET", "www.fakeurl.com", undefined, { signal: controller.signal });
+
+      expect((fetch as jest.Mock).mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it("honors a signal passed through fetchOptions", async () => {
+      global.fetch = jest.fn() as jest.Mock;
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        apiRequest("GET", "www.fakeurl.com", undefined, { fetchOptions: { signal: controller.signal } }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+    });
+
+    it("stops waiting for a retry when aborted", async () => {
+      global.fetch = jest.fn().mockResolvedValue(rateLimitedResponse) as jest.Mock;
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        apiRequest("GET", "www.rate_limit.com", undefined, { signal: controller.signal }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("clears the retry timer when aborted", async () => {
+      global.fetch = jest.fn().mockResolvedValue(rateLimitedResponse) as jest.Mock;
+      const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+      const clearTimeoutSpy = jest.spyOn(global, "clearTimeout");
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        apiRequest("GET", "www.rate_limit.com", undefined, { signal: controller.signal }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+
+      const retryTimerIndex = setTimeoutSpy.mock.calls.findIndex(([, ms]) => (ms || 0) >= 100000);
+      expect(clearTimeoutSpy).toHaveBeenCalledWith(setTimeoutSpy.mock.results[retryTimerIndex].value);
+
+      setTimeoutSpy.mockRestore();
+      clearTimeoutSpy.mockRestore();
+    });
+
+    it("rejects with a timeout error once timeoutMs elapses", async () => {
+      global.fetch = jest.fn(() => new Promise(() => undefined)) as jest.Mock;
+
+      await expect(apiRequest("GET", "www.slow.com", undefined, { timeoutMs: 10 })).rejects.toEqual({
+        errors: ["The request timed out after 10ms"],
+        ok: false,
+        statusCode: 0,
+        statusText: "Timeout",
+        kind: "timeout",
+        request: { method: "GET", url: "www.slow.com" },
+        retryCount: 0,
+      });
+    });
+
+    it("stops a paginated request between pages", async () => {
+      const controller = new AbortController();
+      global.fetch = jest.fn(() => {
+        controller.abort();
+
+        return Promise.resolve({
+          json: () => Promise.resolve({}),
+          status: 200,
+          ok: true,
+          headers: { get: () => "<www.fakeurl.com?startingAfter=1>; rel=next" },
+        });
+      }) as jest.Mock;
+      const dataHandler = jest.fn();
+      const errorHandler = jest.fn();
+
+      await expect(
+        paginatedApiRequest(dataHandler, errorHandler, {
+          method: "GET",
+          url: "www.fakeurl.com",
+          options: { signal: controller.signal },
+        }),
+      ).rejects.toMatchObject({ kind: "aborted" });
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(errorHandler).not.toHaveBeenCalled();
+    });
+
+    it("times out a paginated request", async () => {
+      global.fetch = jest.fn(() => new Promise(() => undefined)) as jest.Mock;
+
+      await expect(
+        paginatedApiRequest(jest.fn(), jest.fn(), { method: "GET", url: "www.slow.com", options: { timeoutMs: 10 } }),
+      ).rejects.toMatchObject({ kind: "timeout" });
+    });
+  });
+
+  describe("error details", () => {
+    beforeEach(() => {
+      global.setTimeout = realSetTimeout;
+    });
+
+    it.each([
+      [400, "validation"],
+      [401, "unauthorized"],
+      [403, "forbidden"],
+      [404, "notFound"],
+      [409, "unknown"],
+      [422, "validation"],
+      [429, "rateLimited"],
+      [500, "server"],
+      [503, "server"],
+    ])("classifies a %i response as %s", async (status, kind) => {
+      global.fetch = jest.fn().mockResolvedValue({ json: () => ({ errors: [] }), status, ok: false }) as jest.Mock;
+
+      await expect(apiRequest("GET", "www.fakeurl.com", undefined, { retry: { maxRetries: 0 } })).rejects.toMatchObject(
+        { kind, statusCode: status },
+      );
+    });
+
+    it("keeps the request, response headers and body", async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        json: () => Promise.resolve({ errors: ["Name is required"], field: "name" }),
+        status: 400,
+        statusText: "Bad Request",
+        ok: false,
+        headers: new Headers({ "X-Request-Id": "abc" }),
+      }) as jest.Mock;
+
+      await expect(apiRequest("POST", "/organizations", {}, { baseUrl: "/api/v1" })).rejects.toEqual({
+        errors: ["Name is required"],
+        ok: false,
+        statusCode: 400,
+        statusText: "Bad Request",
+        kind: "validation",
+        request: { method: "POST", url: "/api/v1/organizations" },
+        headers: { "x-request-id": "abc" },
+        body: { errors: ["Name is required"], field: "name" },
+        retryCount: 0,
+      });
+    });
+
+    it("counts the retries made before failing", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue({ json: () => ({ errors: [] }), status: 503, ok: false, headers: { get: () => null } });
+
+      await expect(
+        apiRequest("GET", "www.fakeurl.com", undefined, {
+          retry: { retryOnStatus: [503], maxRetries: 2, backoff: () => 0, jitter: 0 },
+        }),
+      ).rejects.toMatchObject({ kind: "server", retryCount: 2 });
+    });
+
+    it("turns a failed fetch into a network error", async () => {
+      global.fetch = jest.fn().mockRejectedValue(new TypeError("Failed to fetch")) as jest.Mock;
+
+      await expect(apiRequest("GET", "www.fakeurl.com")).rejects.toEqual({
+        errors: ["Failed to fetch"],
+        ok: false,
+        statusCode: 0,
+        statusText: "Network Error",
+        kind: "network",
+        request: { method: "GET", url: "www.fakeurl.com" },
+        retryCount: 0,
+      });
+    });
+
+    describe("toApiError", () => {
+      it("keeps ApiErrors and fills in their kind", () => {
+        const error = { errors: ["Not found"], ok: false, statusCode: 404, statusText: "Not Found" };
+
+        expect(toApiError(error)).toEqual({ ...error, kind: "notFound" });
+        expect(isApiError(toApiError(error))).toBe(true);
+      });
+
+      it("describes anything else as an unknown error", () => {
+        expect(toApiError(new Error("Something broke"))).toMatchObject({
+          errors: ["Something broke"],
+          kind: "unknown",
+        });
+        expect(toApiError({ reason: "odd" })).toMatchObject({
+          errors: [JSON.stringify({ reason: "odd" })],
+          kind: "unknown",
+        });
+      });
+    });
   });
 
   describe("isApiError", () => {
@@ -661,6 +1002,31 @@ describe("ApiUtils", () => {
         expect(fetch).toHaveBeenCalledTimes(maxRequests);
         expect(dataHandler).toHaveBeenCalledTimes(maxRequests);
       });
+
+      it("sends the provided options with every paginated request", async () => {
+        await paginatedApiRequest(jest.fn(), jest.fn(), {
+          method: "GET",
+          url: "www.fakeurl.com",
+          options: { auth: { apiKey: "banana" }, fetchOptions: { credentials: "omit" } },
+        });
+
+        (fetch as jest.Mock).mock.calls.forEach(([, fetchOptions]) => {
+          expect(fetchOptions.headers["X-Cisco-Meraki-API-Key"]).toEqual("banana");
+          expect(fetchOptions.credentials).toEqual("omit");
+        });
+        expect(fetch).toHaveBeenCalledTimes(expectedCalls);
+      });
+
+      it("calls beforePageRequest with the params of each subsequent page", async () => {
+        const beforePageRequest = jest.fn((params) => params);
+
+        await paginatedApiRequest(jest.fn(), jest.fn(), { method: "GET", url: "www.fakeurl.com" }, 9999, {
+          beforePageRequest,
+        });
+
+        expect(beforePageRequest).toHaveBeenCalledTimes(expectedCalls - 1);
+        expect(beforePageRequest.mock.calls[0][0]).toEqual({ method: "GET", url: "/api/v0/foos?startingAfter=1" });
+      });
     });
   });
 
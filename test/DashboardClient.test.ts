@@ -0,0 +1,159 @@
+import { createDashboardClient } from "../src";
+
+describe("DashboardClient", () => {
+  const mockedFetch = () => fetch as jest.Mock;
+
+  beforeEach(() => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve({
+        json: () => Promise.resolve({ id: "1234", status: { completed: true, failed: false, errors: [] } }),
+        status: 200,
+        ok: true,
+      }),
+    ) as jest.Mock;
+  });
+
+  describe("base URL", () => {
+    it("defaults to api.meraki.com", async () => {
+      const client = createDashboardClient();
+
+      await client.request("GET", "/organizations");
+
+      expect(client.baseUrl).toEqual("https://api.meraki.com/api/v1");
+      expect(mockedFetch().mock.calls[0][0]).toEqual("https://api.meraki.com/api/v1/organizations");
+    });
+
+    it("uses the API root of the given region", async () => {
+      const client = createDashboardClient({ region: "cn" });
+
+      await client.request("GET", "organizations");
+
+      expect(mockedFetch().mock.calls[0][0]).toEqual("https://api.meraki.cn/api/v1/organizations");
+    });
+
+    it("prefers the given base URL over the region", async () => {
+      const client = createDashboardClient({ baseUrl: "http://localhost:3000/api/v1/", region: "cn" });
+
+      await client.request("GET", "/organizations");
+
+      expect(mockedFetch().mock.calls[0][0]).toEqual("http://localhost:3000/api/v1/organizations");
+    });
+
+    it("leaves absolute URLs as they are", async () => {
+      const client = createDashboardClient();
+
+      await client.request("GET", "https://api.meraki.ca/api/v1/organizations");
+
+      expect(mockedFetch().mock.calls[0][0]).toEqual("https://api.meraki.ca/api/v1/organizations");
+    });
+  });
+
+  describe("request", () => {
+    it("sends the client's auth and default headers", async () => {
+      const client = createDashboardClient({ apiKey: "banana", defaultHeaders: { "X-Request-Source": "script" } });
+
+      await client.request("POST", "/organizations", { name: "New org" });
+
+      expect(mockedFetch().mock.calls[0][1]).toMatchObject({
+        method: "POST",
+        body: JSON.stringify({ name: "New org" }),
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          "X-Cisco-Meraki-API-Key": "banana",
+          "X-Request-Source": "script",
+        },
+      });
+    });
+
+    it("merges the options of a single call with the client's options", async () => {
+      const client = createDashboardClient({ apiKey: "banana", defaultHeaders: { "X-Request-Source": "script" } });
+
+      await client.request("GET", "/organizations", undefined, {
+        auth: { csrfToken: "token" },
+        headers: { "X-Trace-Id": "abc" },
+      });
+
+      expect(mockedFetch().mock.calls[0][1].headers).toEqual({
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "X-CSRF-TOKEN": "token",
+        "X-Cisco-Meraki-API-Key": "banana",
+        "X-Request-Source": "script",
+        "X-Trace-Id": "abc",
+      });
+    });
+  });
+
+  describe("pagination", () => {
+    beforeEach(() => {
+      let page = 0;
+
+      global.fetch = jest.fn(() => {
+        page++;
+
+        return Promise.resolve({
+          json: () => Promise.resolve([{ id: `${page}` }]),
+          status: 200,
+          ok: true,
+          headers: {
+            get: (header: string) =>
+              header === "Link" && page < 3
+                ? `<https://api.meraki.com/api/v1/networks/N_1/clients?startingAfter=${page}>; rel=next`
+                : null,
+          },
+        });
+      }) as jest.Mock;
+    });
+
+    it("sends the client's auth with every page", async () => {
+      const client = createDashboardClient({ apiKey: "banana" });
+      const dataHandler = jest.fn();
+
+      await client.paginate(dataHandler, jest.fn(), { method: "GET", url: "/networks/N_1/clients" });
+
+      expect(dataHandler).toHaveBeenCalledTimes(3);
+      expect(mockedFetch().mock.calls[0][0]).toEqual("https://api.meraki.com/api/v1/networks/N_1/clients");
+      mockedFetch().mock.calls.forEach(([, fetchOptions]) => {
+        expect(fetchOptions.headers["X-Cisco-Meraki-API-Key"]).toEqual("banana");
+      });
+    });
+
+    it("fetches all pages", async () => {
+      const client = createDashboardClient({ apiKey: "banana" });
+
+      const response = await client.fetchAllPages<{ id: string }>({ method: "GET", url: "/networks/N_1/clients" });
+
+      expect(response.data).toEqual([{ id: "1" }, { id: "2" }, { id: "3" }]);
+    });
+  });
+
+  describe("batch", () => {
+    it("submits the action batch to the client's API root", async () => {
+      const client = createDashboardClient({ region: "in", apiKey: "banana" });
+
+      await client.batch("123", [{ resource: "/networks/N_1", operation: "update", body: { name: "Renamed" } }]);
+
+      expect(mockedFetch().mock.calls[0][0]).toEqual("https://api.meraki.in/api/v1/organizations/123/actionBatches");
+      expect(mockedFetch().mock.calls[0][1].headers["X-Cisco-Meraki-API-Key"]).toEqual("banana");
+    });
+
+    it("runs large action lists as several batches", async () => {
+      const client = createDashboardClient({ apiKey: "banana" });
+      const actions = Array.from({ length: 30 }, (_, port) => ({
+        resource: `/devices/QXXX-XXXX-XXXX/switchPorts/${port}`,
+        operation: "update" as const,
+        body: { enabled: true },
+      }));
+
+      const report = await client.runBatches("123", actions, { synchronous: true });
+
+      expect(report.succeeded).toHaveLength(30);
+      expect(mockedFetch()).toHaveBeenCalledTimes(2);
+      mockedFetch().mock.calls.forEach(([url, fetchOptions]) => {
+        expect(url).toEqual("https://api.meraki.com/api/v1/organizations/123/actionBatches");
+        expect(fetchOptions.headers["X-Cisco-Meraki-API-Key"]).toEqual("banana");
+      });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { apiRequest, batchedApiRequest, createDashboardClient, fetchAllPages, Middleware } from "../src";
+
+describe("Middleware", () => {
+  const mockedFetch = () => fetch as jest.Mock;
+
+  beforeEach(() => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve({
+        json: () => Promise.resolve({ id: "1234", status: { completed: true, failed: false, errors: [] } }),
+        status: 200,
+        ok: true,
+      }),
+    ) as jest.Mock;
+  });
+
+  it("runs the middleware in order around fetch", async () => {
+    const calls: string[] = [];
+    const track = (name: string) => {
+      const middleware: Middleware = async (request, next) => {
+        calls.push(`before ${name}`);
+        const response = await next(request);
+        calls.push(`after ${name}`);
+        return response;
+      };
+
+      return middleware;
+    };
+
+    await apiRequest("GET", "/api/v1/organizations", undefined, { middleware: [track("outer"), track("inner")] });
+
+    expect(calls).toEqual(["before outer", "before inner", "after inner", "after outer"]);
+    expect(mockedFetch()).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets middleware change the request", async () => {
+    const addTraceHeader: Middleware = (request, next) => {
+      request.init.headers.set("X-Trace-Id", "abc");
+      return next({ ...request, url: `${request.url}?traced=true` });
+    };
+
+    await apiRequest("GET", "/api/v1/organizations", undefined, {
+      auth: { apiKey: "banana" },
+      middleware: [addTraceHeader],
+    });
+
+    const [url, init] = mockedFetch().mock.calls[0];
+    expect(url).toEqual("/api/v1/organizations?traced=true");
+    expect(init.method).toEqual("GET");
+    expect(init.headers.get("X-Trace-Id")).toEqual("abc");
+    expect(init.headers.get("X-Cisco-Meraki-API-Key")).toEqual("banana");
+  });
+
+  it("lets middleware replace the response", async () => {
+    const unwrap: Middleware = async (request, next) => {
+      const response = await next(request);
+      const body = await response.json();
+
+      return { ...response, json: () => Promise.resolve({ ...body, transformed: true }) } as Response;
+    };
+
+    const response = await apiRequest<{ transformed: boolean }>("GET", "/api/v1/organizations", undefined, {
+      middleware: [unwrap],
+    });
+
+    expect(response.data.transformed).toEqual(true);
+  });
+
+  it("runs for every retry", async () => {
+    const attempts: number[] = [];
+    const recordAttempt: Middleware = (request, next) => {
+      attempts.push(request.attempt);
+      return next(request);
+    };
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ json: () => ({ errors: [] }), status: 429, ok: false, headers: { get: () => null } })
+      .mockResolvedValueOnce({ json: () => Promise.resolve({}), status: 200, ok: true }) as jest.Mock;
+
+    await apiRequest("GET", "/api/v1/organizations", undefined, {
+      middleware: [recordAttempt],
+      retry: { backoff: () => 0, jitter: 0 },
+    });
+
+    expect(attempts).toEqual([0, 1]);
+  });
+
+  it("runs for every page", async () => {
+    const urls: string[] = [];
+    const recordUrl: Middleware = (request, next) => {
+      urls.push(request.url);
+      return next(request);
+    };
+    let page = 0;
+    global.fetch = jest.fn(() => {
+      page++;
+
+      return Promise.resolve({
+        json: () => Promise.resolve([page]),
+        status: 200,
+        ok: true,
+        headers: {
+          get: (header: string) => (header === "Link" && page < 2 ? "</api/v1/clients?page=2>; rel=next" : null),
+        },
+      });
+    }) as jest.Mock;
+
+    await fetchAllPages({ method: "GET", url: "/api/v1/clients", options: { middleware: [recordUrl] } });
+
+    expect(urls).toEqual(["/api/v1/clients", "/api/v1/clients?page=2"]);
+  });
+
+  it("runs for action batch submission and polling", async () => {
+    const methods: (string | undefined)[] = [];
+    const recordMethod: Middleware = (request, next) => {
+      methods.push(request.init.method);
+      return next(request);
+    };
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({
+        json: () => Promise.resolve({ id: "1234", status: { completed: false, failed: false, errors: [] } }),
+        status: 201,
+        ok: true,
+      })
+      .mockResolvedValue({
+        json: () => Promise.resolve({ id: "1234", status: { completed: true, failed: false, errors: [] } }),
+        status: 200,
+        ok: true,
+      }) as jest.Mock;
+
+    await batchedApiRequest("123", [], { middleware: [recordMethod] }, { interval: 1 });
+
+    expect(methods).toEqual(["POST", "GET"]);
+  });
+
+  it("runs the client's middleware around the middleware of a single call", async () => {
+    const calls: string[] = [];
+    const track = (name: string) => {
+      const middleware: Middleware = (request, next) => {
+        calls.push(name);
+        return next(request);
+      };
+
+      return middleware;
+    };
+    const client = createDashboardClient({ options: { middleware: [track("client")] } });
+
+    await client.request("GET", "/organizations", undefined, { middleware: [track("call")] });
+
+    expect(calls).toEqual(["client", "call"]);
+  });
+});
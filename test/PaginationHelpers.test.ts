@@ -0,0 +1,336 @@
+import { ApiRequestParams, ApiResponse, fetchAllPages, iterateItems, iteratePages } from "../src";
+
+type Client = { id: string };
+
+const pageUrl = (page: number) => `/api/v1/networks/N_1/clients?startingAfter=${page}`;
+
+const mockPagedFetch = (pages: Client[][]) => {
+  global.fetch = jest.fn((url: string) => {
+    const page = Number(new URL(url, "https://api.meraki.com").searchParams.get("startingAfter"));
+    const links = [
+      page > 0 ? `<${pageUrl(page - 1)}>; rel=prev` : null,
+      page < pages.length - 1 ? `<${pageUrl(page + 1)}>; rel=next` : null,
+    ].filter(Boolean);
+    const linkHeader = links.length ? links.join(", ") : null;
+
+    return Promise.resolve({
+      json: () => Promise.resolve(pages[page]),
+      status: 200,
+      ok: true,
+      headers: { get: (header: string) => (header === "Link" ? linkHeader : null) },
+    });
+  }) as jest.Mock;
+};
+
+describe("PaginationHelpers", () => {
+  const pages = [[{ id: "a" }, { id: "b" }], [{ id: "c" }], [{ id: "d" }, { id: "e" }]];
+
+  beforeEach(() => {
+    mockPagedFetch(pages);
+  });
+
+  describe("iteratePages", () => {
+    it("yields every page in order", async () => {
+      const received = [];
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: pageUrl(0) })) {
+        received.push(page.data);
+      }
+
+      expect(received).toEqual(pages);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect((fetch as jest.Mock).mock.calls[2][0]).toEqual(pageUrl(2));
+    });
+
+    it("does not make a request until iteration starts", () => {
+      iteratePages({ method: "GET", url: pageUrl(0) });
+
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("stops requesting pages when the loop is exited early", async () => {
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: pageUrl(0) })) {
+        if (page.data[0].id === "a") break;
+      }
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops once maxRequests pages have been requested", async () => {
+      const received = [];
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: pageUrl(0) }, { maxRequests: 2 })) {
+        received.push(page);
+      }
+
+      expect(received).toHaveLength(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("sends the body and options of the request with every page", async () => {
+      const apiRequestParams = {
+        method: "GET",
+        url: pageUrl(0),
+        data: { perPage: 2 },
+        options: { auth: { csrfToken: "banana" } },
+      } as const;
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const page of iteratePages(apiRequestParams));
+
+      (fetch as jest.Mock).mock.calls.forEach(([, fetchOptions]) => {
+        expect(fetchOptions.body).toEqual(JSON.stringify({ perPage: 2 }));
+        expect(fetchOptions.headers["X-CSRF-TOKEN"]).toEqual("banana");
+      });
+    });
+
+    it("requests subsequent pages with the params returned by beforePageRequest", async () => {
+      let token = 0;
+      const beforePageRequest = async (params: ApiRequestParams) => ({
+        ...params,
+        options: { auth: { apiKey: `key-${++token}` } },
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const page of iteratePages({ method: "GET", url: pageUrl(0) }, { beforePageRequest }));
+
+      const apiKeys = (fetch as jest.Mock).mock.calls.map(([, opts]) => opts.headers["X-Cisco-Meraki-API-Key"]);
+      expect(apiKeys).toEqual([undefined, "key-1", "key-2"]);
+      expect((fetch as jest.Mock).mock.calls[1][0]).toEqual(pageUrl(1));
+    });
+
+    it("walks backward through prev links", async () => {
+      const received = [];
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: pageUrl(2) }, { direction: "prev" })) {
+        received.push(page.data);
+      }
+
+      expect(received).toEqual([pages[2], pages[1], pages[0]]);
+    });
+
+    it("stops after the page for which stopWhen returns true", async () => {
+      const stopWhen = jest.fn((page: ApiResponse<Client[]>) => page.data.some((client) => client.id === "c"));
+      const received = [];
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: pageUrl(0) }, { stopWhen })) {
+        received.push(page.data);
+      }
+
+      expect(received).toEqual([pages[0], pages[1]]);
+      expect(stopWhen).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects with the api error of a failed page", async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        status: 500,
+        statusText: "Internal server error",
+        json: () => ({ errors: ["first error"] }),
+        ok: false,
+      }) as jest.Mock;
+
+      const iterate = async () => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        for await (const page of iteratePages({ method: "GET", url: pageUrl(0) }));
+      };
+
+      await expect(iterate()).rejects.toMatchObject({ errors: ["first error"], statusCode: 500 });
+    });
+  });
+
+  describe("fetchAllPages", () => {
+    it("merges the data of every page", async () => {
+      const response = await fetchAllPages<Client>({ method: "GET", url: pageUrl(0) });
+
+      expect(response.data).toEqual([{ id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }, { id: "e" }]);
+      expect(response.ok).toBe(true);
+    });
+
+    it("returns combined metadata with the last page's link header", async () => {
+      const response = await fetchAllPages<Client>({ method: "GET", url: pageUrl(0) }, { maxRequests: 2 });
+
+      expect(response.pageCount).toEqual(2);
+      expect(response.totalItems).toEqual(3);
+      expect(response.linkHeader).toEqual(`<${pageUrl(0)}>; rel=prev, <${pageUrl(2)}>; rel=next`);
+      expect(response.nextPageUrl).toEqual(pageUrl(2));
+    });
+
+    describe("with overlapping pages", () => {
+      beforeEach(() => {
+        mockPagedFetch([
+          [{ id: "a" }, { id: "b" }],
+          [{ id: "b" }, { id: "c" }],
+        ]);
+      });
+
+      it("keeps duplicates by default", async () => {
+        const response = await fetchAllPages<Client>({ method: "GET", url: pageUrl(0) });
+
+        expect(response.totalItems).toEqual(4);
+      });
+
+      it("drops duplicates by key", async () => {
+        const response = await fetchAllPages<Client>({ method: "GET", url: pageUrl(0) }, { dedupeBy: "id" });
+
+        expect(response.data).toEqual([{ id: "a" }, { id: "b" }, { id: "c" }]);
+        expect(response.totalItems).toEqual(3);
+      });
+
+      it("drops duplicates by key function", async () => {
+        const response = await fetchAllPages<Client>(
+          { method: "GET", url: pageUrl(0) },
+          { dedupeBy: (client) => client.id.toUpperCase() },
+        );
+
+        expect(response.data.map((client) => client.id)).toEqual(["a", "b", "c"]);
+      });
+    });
+
+    it("rejects with the api error of a failed page", async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        status: 404,
+        statusText: "Not found",
+        json: () => ({ errors: ["Not found"] }),
+        ok: false,
+      }) as jest.Mock;
+
+      await expect(fetchAllPages({ method: "GET", url: pageUrl(0) })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe("concurrent pages", () => {
+    const numberedPageUrl = (page: number) => `https://api.meraki.com/api/v1/organizations/1/devices?page=${page}`;
+    const lastPage = 5;
+    let inFlight: number;
+    let maxInFlight: number;
+
+    const numberedLinkHeader = (page: number) => {
+      const links = [`<${numberedPageUrl(lastPage)}>; rel=last`];
+
+      if (page < lastPage) links.unshift(`<${numberedPageUrl(page + 1)}>; rel=next`);
+
+      return links.join(", ");
+    };
+
+    const numberedPageResponse = (page: number, status = 200) => ({
+      json: () => Promise.resolve(status === 200 ? [{ id: `${page}` }] : { errors: ["Too many requests"] }),
+      status,
+      ok: status === 200,
+      headers: { get: (header: string) => (header === "Link" ? numberedLinkHeader(page) : null) },
+    });
+
+    const delayed = <T>(value: T, ms: number) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+    beforeEach(() => {
+      inFlight = 0;
+      maxInFlight = 0;
+      global.fetch = jest.fn(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get("page"));
+
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // later pages respond faster to check that pages are still yielded in order
+        const response = await delayed(numberedPageResponse(page), (lastPage - page) * 5);
+        inFlight--;
+
+        return response;
+      }) as jest.Mock;
+    });
+
+    it("yields every page in order", async () => {
+      const received = [];
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: numberedPageUrl(1) }, { concurrency: 3 })) {
+        received.push(page.data[0].id);
+      }
+
+      expect(received).toEqual(["1", "2", "3", "4", "5"]);
+      expect(fetch).toHaveBeenCalledTimes(5);
+    });
+
+    it("requests pages in parallel up to the concurrency limit", async () => {
+      await fetchAllPages<Client>({ method: "GET", url: numberedPageUrl(1) }, { concurrency: 2 });
+
+      expect(maxInFlight).toEqual(2);
+    });
+
+    it("requests pages one at a time without concurrency", async () => {
+      await fetchAllPages<Client>({ method: "GET", url: numberedPageUrl(1) });
+
+      expect(maxInFlight).toEqual(1);
+    });
+
+    it("respects maxRequests", async () => {
+      const response = await fetchAllPages<Client>(
+        { method: "GET", url: numberedPageUrl(1) },
+        { concurrency: 3, maxRequests: 3 },
+      );
+
+      expect(response.data).toEqual([{ id: "1" }, { id: "2" }, { id: "3" }]);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("aborts the pages in flight when the loop is left early", async () => {
+      global.fetch = jest.fn(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get("page"));
+
+        return delayed(numberedPageResponse(page), page * 10);
+      }) as jest.Mock;
+
+      for await (const page of iteratePages<Client[]>({ method: "GET", url: numberedPageUrl(1) }, { concurrency: 4 })) {
+        if (page.data[0].id === "2") break;
+      }
+
+      const signals = (fetch as jest.Mock).mock.calls.map(([, init]) => Boolean(init.signal?.aborted));
+      expect(signals).toEqual([false, false, true, true, true]);
+    });
+
+    it("pauses other pages while a page is rate limited", async () => {
+      const fetchStartTimes: Record<string, number[]> = {};
+      const onRetry = jest.fn();
+      let rateLimited = false;
+
+      global.fetch = jest.fn(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get("page"));
+        fetchStartTimes[page] = [...(fetchStartTimes[page] || []), Date.now()];
+
+        if (page === 3 && !rateLimited) {
+          rateLimited = true;
+          return numberedPageResponse(page, 429);
+        }
+
+        return delayed(numberedPageResponse(page), 10);
+      }) as jest.Mock;
+
+      const response = await fetchAllPages<Client>(
+        { method: "GET", url: numberedPageUrl(1), options: { retry: { backoff: () => 50, jitter: 0, onRetry } } },
+        { concurrency: 2 },
+      );
+
+      expect(response.totalItems).toEqual(5);
+      expect(onRetry).toHaveBeenCalledWith({ attempt: 0, delay: 50, status: 429 });
+      expect(fetchStartTimes[4][0] - fetchStartTimes[3][0]).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  describe("iterateItems", () => {
+    it("yields every item of every page", async () => {
+      const received = [];
+
+      for await (const client of iterateItems<Client>({ method: "GET", url: pageUrl(0) })) {
+        received.push(client.id);
+      }
+
+      expect(received).toEqual(["a", "b", "c", "d", "e"]);
+    });
+
+    it("only requests the pages needed for the consumed items", async () => {
+      for await (const client of iterateItems<Client>({ method: "GET", url: pageUrl(0) })) {
+        if (client.id === "c") break;
+      }
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
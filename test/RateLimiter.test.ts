@@ -0,0 +1,172 @@
+import { apiRequest, batchedApiRequest, createRateLimiter, RateLimiter } from "../src";
+
+describe("RateLimiter", () => {
+  describe("createRateLimiter", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const acquireMany = (limiter: RateLimiter, key: string, count: number) => {
+      const released: number[] = [];
+
+      Array.from({ length: count }, (_, index) => limiter.acquire(key).then(() => released.push(index)));
+
+      return released;
+    };
+
+    it("releases up to the burst size immediately", async () => {
+      const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 3 });
+      const released = acquireMany(limiter, "org", 5);
+
+      await Promise.resolve();
+
+      expect(released).toEqual([0, 1, 2]);
+    });
+
+    it("paces the remaining requests in order", async () => {
+      const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 1 });
+      const released = acquireMany(limiter, "org", 3);
+
+      await Promise.resolve();
+      expect(released).toEqual([0]);
+
+      jest.advanceTimersByTime(100);
+      await Promise.resolve();
+      expect(released).toEqual([0, 1]);
+
+      jest.advanceTimersByTime(100);
+      await Promise.resolve();
+      expect(released).toEqual([0, 1, 2]);
+    });
+
+    it("keeps a separate budget for each key", async () => {
+      const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 1 });
+      const firstOrg = acquireMany(limiter, "org-1", 2);
+      const secondOrg = acquireMany(limiter, "org-2", 2);
+
+      await Promise.resolve();
+
+      expect(firstOrg).toEqual([0]);
+      expect(secondOrg).toEqual([0]);
+    });
+
+    it("holds back requests for a paused key", async () => {
+      const limiter = createRateLimiter({ requestsPerSecond: 10 });
+      limiter.pause("org", 1000);
+      const released = acquireMany(limiter, "org", 1);
+
+      jest.advanceTimersByTime(999);
+      await Promise.resolve();
+      expect(released).toEqual([]);
+
+      jest.advanceTimersByTime(1);
+      await Promise.resolve();
+      expect(released).toEqual([0]);
+    });
+
+    it("rejects and frees the queue slot when the signal is aborted", async () => {
+      const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 1 });
+      const controller = new AbortController();
+      const released = acquireMany(limiter, "org", 1);
+      const aborted = limiter.acquire("org", controller.signal);
+      const afterAborted = acquireMany(limiter, "org", 1);
+
+      controller.abort();
+      await expect(aborted).rejects.toThrow("Rate limited request was aborted");
+
+      jest.advanceTimersByTime(100);
+      await Promise.resolve();
+      expect(released).toEqual([0]);
+      expect(afterAborted).toEqual([0]);
+    });
+
+    describe("getKey", () => {
+      const limiter = createRateLimiter();
+
+      it("uses the organization ID in the URL", () => {
+        expect(limiter.getKey("https://api.meraki.com/api/v1/organizations/123/networks?perPage=5")).toEqual(
+          "organization:123",
+        );
+      });
+
+      it("falls back to the API key", () => {
+        expect(limiter.getKey("/api/v1/networks/N_1/clients", { auth: { apiKey: "banana" } })).toEqual("apiKey:banana");
+      });
+
+      it("falls back to a shared key", () => {
+        expect(limiter.getKey("/api/v1/networks/N_1/clients")).toEqual("default");
+      });
+
+      it("can be customized", () => {
+        const customLimiter = createRateLimiter({ getKey: () => "everything" });
+
+        expect(customLimiter.getKey("/api/v1/organizations/123")).toEqual("everything");
+      });
+    });
+  });
+
+  describe("with apiRequest", () => {
+    const mockLimiter = () => ({
+      getKey: jest.fn(() => "organization:123"),
+      acquire: jest.fn(() => Promise.resolve()),
+      pause: jest.fn(),
+    });
+
+    beforeEach(() => {
+      Math.random = jest.fn(() => 0);
+    });
+
+    it("acquires a token before every attempt", async () => {
+      const rateLimiter = mockLimiter();
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ json: () => ({ errors: [] }), status: 429, ok: false, headers: { get: () => "0" } })
+        .mockResolvedValueOnce({ json: () => Promise.resolve({}), status: 200, ok: true }) as jest.Mock;
+
+      await apiRequest("GET", "/api/v1/organizations/123/networks", undefined, {
+        rateLimiter,
+        retry: { backoff: () => 0, jitter: 0 },
+      });
+
+      expect(rateLimiter.getKey).toHaveBeenCalledWith("/api/v1/organizations/123/networks", expect.anything());
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(rateLimiter.acquire).toHaveBeenCalledWith("organization:123", undefined);
+    });
+
+    it("pauses the key when the request is rate limited", async () => {
+      const rateLimiter = mockLimiter();
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ json: () => ({ errors: [] }), status: 429, ok: false, headers: { get: () => "0" } })
+        .mockResolvedValueOnce({ json: () => Promise.resolve({}), status: 200, ok: true }) as jest.Mock;
+
+      await apiRequest("GET", "/api/v1/organizations/123/networks", undefined, {
+        rateLimiter,
+        retry: { backoff: () => 20, jitter: 0 },
+      });
+
+      expect(rateLimiter.pause).toHaveBeenCalledWith("organization:123", 20);
+    });
+
+    it("paces action batch polling", async () => {
+      const rateLimiter = mockLimiter();
+      const pendingBatch = { id: "1234", status: { completed: false, failed: false, errors: [] } };
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ json: () => Promise.resolve(pendingBatch), status: 201, ok: true })
+        .mockResolvedValue({
+          json: () => Promise.resolve({ ...pendingBatch, status: { ...pendingBatch.status, completed: true } }),
+          status: 200,
+          ok: true,
+        }) as jest.Mock;
+
+      await batchedApiRequest("123", [], { rateLimiter });
+
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { apiRequest } from "../../src/index";
+import { ApiResponse } from "../../src/apiUtils";
+import { ApiCacheProvider, createApiCache, getApiCacheKey } from "../../src/hooks/apiCache";
+import { useApiRequest } from "../../src/hooks/useApiRequest";
+import { act, render, waitFor } from "@testing-library/react";
+
+jest.mock("../../src/index");
+const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
+
+type Network = {
+  id: string;
+};
+
+describe("apiCache", () => {
+  const networksKey = getApiCacheKey({ method: "GET", url: "/organizations/1/networks" });
+  const respondWith = (data: unknown) => () => Promise.resolve({ ok: true, data } as ApiResponse<unknown>);
+
+  afterEach(() => {
+    mockedApiRequest.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  describe("createApiCache", () => {
+    it("shares a request that is in flight", async () => {
+      const cache = createApiCache();
+      const request = jest.fn().mockResolvedValue({ ok: true, data: [] });
+
+      const responses = await Promise.all([cache.fetch(networksKey, request), cache.fetch(networksKey, request)]);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(responses[0]).toBe(responses[1]);
+      expect(cache.get(networksKey)?.response).toBe(responses[0]);
+    });
+
+    it("marks entries stale once the ttl elapsed", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1000);
+      const cache = createApiCache({ ttlMs: 500 });
+
+      await cache.fetch(networksKey, respondWith([]));
+      expect(cache.isStale(networksKey)).toBe(false);
+
+      now.mockReturnValue(1500);
+      expect(cache.isStale(networksKey)).toBe(true);
+    });
+
+    it("invalidates the keys that start with the prefix", async () => {
+      const cache = createApiCache();
+      const devicesKey = getApiCacheKey({ method: "GET", url: "/organizations/2/devices" });
+      const listener = jest.fn();
+      cache.subscribe(networksKey, listener);
+
+      await cache.fetch(networksKey, respondWith([]));
+      await cache.fetch(devicesKey, respondWith([]));
+      listener.mockClear();
+      cache.invalidate("GET /organizations/1");
+
+      expect(cache.get(networksKey)).toBeUndefined();
+      expect(cache.get(devicesKey)).not.toBeUndefined();
+      expect(listener).toHaveBeenCalledWith(undefined);
+    });
+
+    it("keeps the error of a failed request until it is cleared", async () => {
+      const cache = createApiCache();
+      const notFound = { errors: ["Not found"], ok: false, statusCode: 404, statusText: "Not Found", kind: "notFound" };
+
+      await expect(cache.fetch(networksKey, () => Promise.reject(notFound))).rejects.toBe(notFound);
+      expect(cache.getError(networksKey)).toMatchObject(notFound);
+
+      cache.clearErrors("GET /organizations/1");
+      expect(cache.getError(networksKey)).toBeUndefined();
+    });
+
+    it("keys requests by their params", () => {
+      expect(getApiCacheKey({ method: "GET", url: "/networks", data: { perPage: 10 } })).toEqual(
+        `GET /networks ${JSON.stringify({ perPage: 10 })}`,
+      );
+    });
+
+    it("keys requests by their fetch headers", () => {
+      const keyFor = (headers: HeadersInit) =>
+        getApiCacheKey({ method: "GET", url: "/organizations", options: { fetchOptions: { headers } } });
+
+      expect(keyFor({ Authorization: "Bearer A" })).not.toEqual(keyFor({ Authorization: "Bearer B" }));
+      expect(keyFor({ Authorization: "Bearer A" })).toEqual(keyFor([["authorization", "Bearer A"]]));
+      expect(keyFor({})).toEqual("GET /organizations");
+    });
+
+    it("keys requests by their resolved url and credentials", () => {
+      const baseUrl = "https://api.meraki.com/api/v1";
+      const keyFor = (apiKey: string) =>
+        getApiCacheKey({ method: "GET", url: "/networks", options: { baseUrl, auth: { apiKey } } });
+
+      expect(keyFor("key-1").startsWith(`GET ${baseUrl}/networks`)).toBe(true);
+      expect(keyFor("key-1")).not.toEqual(keyFor("key-2"));
+      expect(getApiCacheKey({ method: "GET", url: "/networks", options: { baseUrl } })).toEqual(
+        `GET ${baseUrl}/networks`,
+      );
+    });
+  });
+
+  describe("useApiRequest with ApiCacheProvider", () => {
+    const NetworkCount = () => {
+      const [response, , isFetching] = useApiRequest<Network[]>({ method: "GET", url: "/organizations/1/networks" });
+
+      return (
+        <div>
+          {isFetching && <div>Loading</div>}
+          {response && <div>{`${response.data?.length} networks`}</div>}
+        </div>
+      );
+    };
+
+    it("sends one request for every hook with the same key", async () => {
+      mockedApiRequest.mockResolvedValue({ ok: true, data: [{ id: "N_1" }] });
+      const { findAllByText } = render(
+        <ApiCacheProvider>
+          <NetworkCount />
+          <NetworkCount />
+        </ApiCacheProvider>,
+      );
+
+      expect(await findAllByText("1 networks")).toHaveLength(2);
+      expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("serves a fresh response without a request", async () => {
+      const cache = createApiCache();
+      await cache.fetch(networksKey, respondWith([{ id: "N_1" }]));
+
+      const { queryByText } = render(
+        <ApiCacheProvider cache={cache}>
+          <NetworkCount />
+        </ApiCacheProvider>,
+      );
+
+      expect(queryByText("1 networks")).not.toBeNull();
+      expect(queryByText("Loading")).toBeNull();
+      expect(mockedApiRequest).not.toHaveBeenCalled();
+    });
+
+    it("shows a stale response while it is revalidated", async () => {
+      const cache = createApiCache({ ttlMs: 0 });
+      await cache.fetch(networksKey, respondWith([{ id: "N_1" }]));
+      mockedApiRequest.mockResolvedValue({ ok: true, data: [{ id: "N_1" }, { id: "N_2" }] });
+
+      const { queryByText } = render(
+        <ApiCacheProvider cache={cache}>
+          <NetworkCount />
+        </ApiCacheProvider>,
+      );
+
+      expect(queryByText("1 networks")).not.toBeNull();
+      await waitFor(() => expect(queryByText("2 networks")).not.toBeNull());
+    });
+
+    it("refetches once the key is invalidated", async () => {
+      const cache = createApiCache();
+      mockedApiRequest
+        .mockResolvedValueOnce({ ok: true, data: [{ id: "N_1" }] })
+        .mockResolvedValueOnce({ ok: true, data: [{ id: "N_1" }, { id: "N_2" }] });
+      const { findByText } = render(
+        <ApiCacheProvider cache={cache}>
+          <NetworkCount />
+        </ApiCacheProvider>,
+      );
+
+      await findByText("1 networks");
+      act(() => cache.invalidate("GET /organizations/1"));
+
+      await findByText("2 networks");
+      expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache other methods", async () => {
+      const cache = createApiCache();
+      const CreateNetwork = () => {
+        useApiRequest({ method: "POST", url: "/organizations/1/networks", data: { name: "HQ" } });
+        return null;
+      };
+      mockedApiRequest.mockResolvedValue({ ok: true, data: { id: "N_1" } });
+
+      render(
+        <ApiCacheProvider cache={cache}>
+          <CreateNetwork />
+          <CreateNetwork />
+        </ApiCacheProvider>,
+      );
+
+      await waitFor(() => expect(mockedApiRequest).toHaveBeenCalledTimes(2));
+      expect(cache.get(getApiCacheKey({ method: "POST", url: "/organizations/1/networks" }))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { act, fireEvent, render, waitFor } from "@testing-library/react";
+import { batchedApiRequest, Action, ActionBatchOptions, ActionBatchResponse } from "../../src/actionBatchHelpers";
+import { Options } from "../../src/apiUtils";
+import { useActionBatch } from "../../src/hooks/useActionBatch";
+
+jest.mock("../../src/actionBatchHelpers", () => ({
+  ...jest.requireActual("../../src/actionBatchHelpers"),
+  batchedApiRequest: jest.fn(),
+}));
+const mockedBatchedApiRequest = jest.mocked(batchedApiRequest) as jest.Mock;
+
+describe("useActionBatch", () => {
+  const actions: Action[] = [{ resource: "/networks/N_1/appliance/vlans", operation: "create", body: { id: 10 } }];
+  const authOptions = { auth: { apiKey: "banana" } };
+  const makeBatch = (status: Partial<ActionBatchResponse["status"]>): ActionBatchResponse => ({
+    id: "1234",
+    organizationId: "2",
+    confirmed: true,
+    synchronous: false,
+    actions,
+    status: { completed: false, failed: false, errors: [], ...status },
+  });
+
+  const ComponentUsingHook = () => {
+    const [submit, state] = useActionBatch("2", authOptions);
+
+    return (
+      <div>
+        <button onClick={() => submit(actions)}>Submit</button>
+        <div>Status: {state.status}</div>
+        {state.status === "completed" && <div>Created: {state.createdResources.map(({ id }) => id).join(",")}</div>}
+        {state.status === "pending" && <div>Batch: {state.actionBatch.id}</div>}
+        {state.status === "failed" && state.errors.map((error) => <div key={error}>{error}</div>)}
+      </div>
+    );
+  };
+
+  afterEach(() => {
+    mockedBatchedApiRequest.mockReset();
+  });
+
+  it("starts out idle", () => {
+    const { queryByText } = render(<ComponentUsingHook />);
+
+    expect(queryByText("Status: idle")).not.toBeNull();
+    expect(mockedBatchedApiRequest).not.toHaveBeenCalled();
+  });
+
+  it("goes through submitting and polling until the batch completed", async () => {
+    let progress: ActionBatchOptions["onProgress"];
+    let complete: () => void = () => undefined;
+    mockedBatchedApiRequest.mockImplementation((_orgId, _actions, _options, opts: ActionBatchOptions) => {
+      progress = opts.onProgress;
+
+      return new Promise((resolve) => {
+        complete = () =>
+          resolve({
+            state: "completed",
+            data: makeBatch({
+              completed: true,
+              createdResources: [{ id: "10", uri: "/networks/N_1/appliance/vlans/10" }],
+            }),
+          });
+      });
+    });
+    const { getByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(getByText("Submit"));
+    expect(queryByText("Status: submitting")).not.toBeNull();
+
+    act(() => progress?.(makeBatch({})));
+    expect(queryByText("Status: polling")).not.toBeNull();
+
+    complete();
+    await waitFor(() => expect(queryByText("Status: completed")).not.toBeNull());
+    expect(queryByText("Created: 10")).not.toBeNull();
+    expect(mockedBatchedApiRequest).toHaveBeenCalledWith(
+      "2",
+      actions,
+      { ...authOptions, signal: expect.any(AbortSignal) },
+      expect.anything(),
+    );
+  });
+
+  it("returns the batch that is still pending", async () => {
+    mockedBatchedApiRequest.mockResolvedValue({ state: "pending", batchId: "1234", data: makeBatch({}) });
+    const { getByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(getByText("Submit"));
+
+    await waitFor(() => expect(queryByText("Status: pending")).not.toBeNull());
+    expect(queryByText("Batch: 1234")).not.toBeNull();
+  });
+
+  it("returns the errors of a failed batch", async () => {
+    mockedBatchedApiRequest.mockRejectedValue({
+      errors: ["VLAN already exists"],
+      ok: false,
+      statusCode: 201,
+      statusText: "Created",
+      kind: "actionBatchFailed",
+    });
+    const { getByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(getByText("Submit"));
+
+    await waitFor(() => expect(queryByText("Status: failed")).not.toBeNull());
+    expect(queryByText("VLAN already exists")).not.toBeNull();
+  });
+
+  it("stops polling on unmount", async () => {
+    let options: Options | undefined;
+    mockedBatchedApiRequest.mockImplementation((_orgId, _actions, authOptionsWithSignal: Options) => {
+      options = authOptionsWithSignal;
+      return new Promise(() => undefined);
+    });
+    const { getByText, unmount } = render(<ComponentUsingHook />);
+
+    fireEvent.click(getByText("Submit"));
+    unmount();
+
+    expect(options?.signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { apiRequest, isApiError } from "../../src/index";
+import { useApiMutation } from "../../src/hooks/useApiMutation";
+import { fireEvent, render, waitFor } from "@testing-library/react";
+
+jest.mock("../../src/index");
+const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
+const mockedIsApiError = jest.mocked(isApiError) as jest.Mock;
+
+type SuccessfulResponse = {
+  id: string;
+};
+
+describe("useApiMutation", () => {
+  const ComponentUsingHook = () => {
+    const [mutate, { response, errors, isLoading }] = useApiMutation<SuccessfulResponse>("POST", "www.fake.url.com");
+
+    return (
+      <div>
+        <button onClick={() => mutate({ name: "HQ" })}>Save</button>
+        {isLoading && <div>Loading</div>}
+        {!isLoading && response && <div>{response.data?.id}</div>}
+        {errors?.map((error, index) => (
+          <div key={index}>{error}</div>
+        ))}
+      </div>
+    );
+  };
+
+  afterEach(() => {
+    mockedApiRequest.mockReset();
+  });
+
+  it("waits for mutate to make the request", async () => {
+    mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { id: "1234" } });
+    const { getByText, queryByText } = render(<ComponentUsingHook />);
+
+    expect(mockedApiRequest).not.toHaveBeenCalled();
+    fireEvent.click(getByText("Save"));
+    expect(queryByText("Loading")).not.toBeNull();
+
+    await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+    expect(mockedApiRequest).toHaveBeenCalledWith("POST", "www.fake.url.com", { name: "HQ" }, undefined);
+  });
+
+  it("returns errors and clears them on the next request", async () => {
+    mockedIsApiError.mockReturnValueOnce(true);
+    mockedApiRequest
+      .mockRejectedValueOnce({ errors: ["Name has already been taken"] })
+      .mockResolvedValueOnce({ ok: true, data: { id: "1234" } });
+    const { getByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(getByText("Save"));
+    await waitFor(() => expect(queryByText("Name has already been taken")).not.toBeNull());
+
+    fireEvent.click(getByText("Save"));
+    expect(queryByText("Name has already been taken")).toBeNull();
+
+    await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+  });
+});
@@ -1,6 +1,6 @@
 import { apiRequest, isApiError } from "../../src/index";
 import { useApiRequest } from "../../src/hooks/useApiRequest";
-import { render, waitFor } from "@testing-library/react";
+import { fireEvent, render, waitFor } from "@testing-library/react";
 
 jest.mock("../../src/index");
 const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
@@ -99,4 +99,155 @@ describe("useApiRequest", () => {
       });
     });
   });
+
+  describe("controls", () => {
+    const ComponentWithControls = ({ enabled }: { enabled?: boolean }) => {
+      const [response, errors, isFetching, { refetch }] = useApiRequest<SuccessfulResponse>(
+        { method: "GET", url: "www.fake.url.com" },
+        [],
+        enabled === undefined ? {} : { enabled },
+      );
+
+      return (
+        <div>
+          <button onClick={() => refetch()}>Refetch</button>
+          {isFetching && <div>Loading</div>}
+          {!isFetching && response && <div>{response.data?.id}</div>}
+          {errors?.map((error, index) => (
+            <div key={index}>{error}</div>
+          ))}
+        </div>
+      );
+    };
+
+    afterEach(() => {
+      mockedApiRequest.mockReset();
+    });
+
+    it("makes the request again on refetch", async () => {
+      mockedApiRequest
+        .mockResolvedValueOnce({ ok: true, data: { id: "1234" } })
+        .mockResolvedValueOnce({ ok: true, data: { id: "5678" } });
+      const { getByText, queryByText } = render(<ComponentWithControls />);
+
+      await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+      fireEvent.click(getByText("Refetch"));
+
+      await waitFor(() => expect(queryByText("5678")).not.toBeNull());
+      expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("clears the errors of the previous request", async () => {
+      mockedIsApiError.mockReturnValueOnce(true);
+      mockedApiRequest
+        .mockRejectedValueOnce({ errors: ["first error"] })
+        .mockResolvedValueOnce({ ok: true, data: { id: "1234" } });
+      const { getByText, queryByText } = render(<ComponentWithControls />);
+
+      await waitFor(() => expect(queryByText("first error")).not.toBeNull());
+      fireEvent.click(getByText("Refetch"));
+
+      await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+      expect(queryByText("first error")).toBeNull();
+    });
+
+    it("waits for refetch while not enabled", async () => {
+      mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { id: "1234" } });
+      const { getByText, queryByText } = render(<ComponentWithControls enabled={false} />);
+
+      expect(mockedApiRequest).not.toHaveBeenCalled();
+      fireEvent.click(getByText("Refetch"));
+
+      await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+    });
+
+    it("makes the request once it is enabled", async () => {
+      mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { id: "1234" } });
+      const { queryByText, rerender } = render(<ComponentWithControls enabled={false} />);
+
+      rerender(<ComponentWithControls enabled />);
+
+      await waitFor(() => expect(queryByText("1234")).not.toBeNull());
+      expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("superseded requests", () => {
+    const SearchUsingHook = ({ query }: { query: string }) => {
+      const [response, , , { isLatest }] = useApiRequest<SuccessfulResponse>(
+        { method: "GET", url: `www.fake.url.com?search=${query}` },
+        [query],
+      );
+
+      return (
+        <div>
+          {response && <div>{response.data?.id}</div>}
+          {isLatest && <div>Latest</div>}
+        </div>
+      );
+    };
+
+    const deferResponse = () => {
+      let resolve: (value: unknown) => void = () => undefined;
+      const promise = new Promise((resolvePromise) => {
+        resolve = resolvePromise;
+      });
+
+      return { promise, resolve };
+    };
+
+    afterEach(() => {
+      mockedApiRequest.mockReset();
+    });
+
+    it("ignores a response that arrives after a newer request", async () => {
+      const first = deferResponse();
+      const second = deferResponse();
+      mockedApiRequest.mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+      const { queryByText, rerender } = render(<SearchUsingHook query="a" />);
+
+      rerender(<SearchUsingHook query="ab" />);
+      second.resolve({ ok: true, data: { id: "ab" } });
+      await waitFor(() => expect(queryByText("ab")).not.toBeNull());
+
+      first.resolve({ ok: true, data: { id: "a" } });
+      await first.promise;
+
+      expect(queryByText("a")).toBeNull();
+      expect(queryByText("ab")).not.toBeNull();
+      expect(queryByText("Latest")).not.toBeNull();
+    });
+
+    it("aborts the previous request", () => {
+      mockedApiRequest.mockReturnValue(new Promise(() => undefined));
+      const { rerender } = render(<SearchUsingHook query="a" />);
+
+      rerender(<SearchUsingHook query="ab" />);
+
+      const [[, , , firstOptions], [, , , secondOptions]] = mockedApiRequest.mock.calls;
+      expect(firstOptions.signal.aborted).toBe(true);
+      expect(secondOptions.signal.aborted).toBe(false);
+    });
+
+    it("is not the latest response while a newer request is in flight", async () => {
+      const second = deferResponse();
+      mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { id: "a" } }).mockReturnValueOnce(second.promise);
+      const { queryByText, rerender } = render(<SearchUsingHook query="a" />);
+
+      await waitFor(() => expect(queryByText("Latest")).not.toBeNull());
+      rerender(<SearchUsingHook query="ab" />);
+
+      expect(queryByText("a")).not.toBeNull();
+      expect(queryByText("Latest")).toBeNull();
+    });
+
+    it("aborts the request on unmount", () => {
+      mockedApiRequest.mockReturnValue(new Promise(() => undefined));
+      const { unmount } = render(<SearchUsingHook query="a" />);
+
+      unmount();
+
+      expect(mockedApiRequest.mock.calls[0][3].signal.aborted).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { apiRequest, isApiError } from "../../src/index";
+import { usePaginatedApiRequest } from "../../src/hooks/usePaginatedApiRequest";
+import { fireEvent, render, waitFor } from "@testing-library/react";
+
+jest.mock("../../src/index");
+const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
+const mockedIsApiError = jest.mocked(isApiError) as jest.Mock;
+
+type Client = {
+  id: string;
+};
+
+describe("usePaginatedApiRequest", () => {
+  const makePage = (ids: string[], nextPageUrl: string | null, prevPageUrl: string | null = null) => ({
+    ok: true,
+    data: ids.map((id) => ({ id })),
+    nextPageUrl,
+    prevPageUrl,
+  });
+
+  const ComponentUsingHook = ({ networkId = "N_1" }: { networkId?: string }) => {
+    const {
+      items,
+      isLoading,
+      errors,
+      hasNextPage,
+      hasPreviousPage,
+      isFetchingNextPage,
+      nextPageErrors,
+      fetchNextPage,
+      fetchPreviousPage,
+    } = usePaginatedApiRequest<Client>({ method: "GET", url: `/networks/${networkId}/clients` }, [networkId]);
+
+    return (
+      <div>
+        {isLoading && <div>Loading</div>}
+        {errors?.map((error) => (
+          <div key={error}>{error}</div>
+        ))}
+        <div>Clients: {items.map(({ id }) => id).join(",")}</div>
+        {hasPreviousPage && <button onClick={() => fetchPreviousPage()}>Previous</button>}
+        {hasNextPage && <button onClick={() => fetchNextPage()}>More</button>}
+        {isFetchingNextPage && <div>Loading more</div>}
+        {nextPageErrors?.map((error) => (
+          <div key={error}>{error}</div>
+        ))}
+      </div>
+    );
+  };
+
+  afterEach(() => {
+    mockedApiRequest.mockReset();
+  });
+
+  it("loads the first page", async () => {
+    mockedApiRequest.mockResolvedValueOnce(makePage(["1", "2"], null));
+    const { queryByText } = render(<ComponentUsingHook />);
+
+    expect(queryByText("Loading")).not.toBeNull();
+
+    await waitFor(() => expect(queryByText("Clients: 1,2")).not.toBeNull());
+    expect(queryByText("More")).toBeNull();
+    expect(mockedApiRequest).toHaveBeenCalledWith("GET", "/networks/N_1/clients", undefined, {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("appends the next page", async () => {
+    mockedApiRequest
+      .mockResolvedValueOnce(makePage(["1", "2"], "/networks/N_1/clients?startingAfter=2"))
+      .mockResolvedValueOnce(makePage(["3"], null));
+    const { findByText, getByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(await findByText("More"));
+    expect(queryByText("Loading more")).not.toBeNull();
+
+    await waitFor(() => expect(getByText("Clients: 1,2,3")).not.toBeNull());
+    expect(queryByText("More")).toBeNull();
+    expect(mockedApiRequest).toHaveBeenLastCalledWith("GET", "/networks/N_1/clients?startingAfter=2", undefined, {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("prepends the previous page", async () => {
+    mockedApiRequest
+      .mockResolvedValueOnce(makePage(["3"], null, "/networks/N_1/clients?endingBefore=3"))
+      .mockResolvedValueOnce(makePage(["1", "2"], "/networks/N_1/clients?startingAfter=2"));
+    const { findByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(await findByText("Previous"));
+
+    await findByText("Clients: 1,2,3");
+    expect(queryByText("Previous")).toBeNull();
+  });
+
+  it("keeps the loaded pages when the next page fails", async () => {
+    mockedIsApiError.mockReturnValueOnce(true);
+    mockedApiRequest
+      .mockResolvedValueOnce(makePage(["1"], "/networks/N_1/clients?startingAfter=1"))
+      .mockRejectedValueOnce({ errors: ["Too many requests"] });
+    const { findByText, queryByText } = render(<ComponentUsingHook />);
+
+    fireEvent.click(await findByText("More"));
+
+    await findByText("Too many requests");
+    expect(queryByText("Clients: 1")).not.toBeNull();
+    expect(queryByText("More")).not.toBeNull();
+  });
+
+  it("starts over when the dependencies change", async () => {
+    mockedApiRequest
+      .mockResolvedValueOnce(makePage(["1"], "/networks/N_1/clients?startingAfter=1"))
+      .mockResolvedValueOnce(makePage(["9"], null));
+    const { findByText, queryByText, rerender } = render(<ComponentUsingHook />);
+
+    await findByText("Clients: 1");
+    rerender(<ComponentUsingHook networkId="N_2" />);
+
+    await findByText("Clients: 9");
+    expect(queryByText("More")).toBeNull();
+    expect(mockedApiRequest).toHaveBeenLastCalledWith("GET", "/networks/N_2/clients", undefined, expect.anything());
+  });
+
+  it("ignores a page of the previous params that arrives late", async () => {
+    let resolveNextPage: (page: unknown) => void = () => undefined;
+    mockedApiRequest
+      .mockResolvedValueOnce(makePage(["1"], "/networks/N_1/clients?startingAfter=1"))
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveNextPage = resolve;
+        }),
+      )
+      .mockResolvedValueOnce(makePage(["9"], null));
+    const { findByText, queryByText, rerender } = render(<ComponentUsingHook />);
+
+    fireEvent.click(await findByText("More"));
+    rerender(<ComponentUsingHook networkId="N_2" />);
+    await findByText("Clients: 9");
+
+    resolveNextPage(makePage(["2"], null));
+    await waitFor(() => expect(mockedApiRequest.mock.calls[1][3].signal.aborted).toBe(true));
+
+    expect(queryByText("Clients: 9")).not.toBeNull();
+  });
+});
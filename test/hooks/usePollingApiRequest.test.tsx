@@ -0,0 +1,143 @@
+import { apiRequest, isApiError } from "../../src/index";
+import { usePollingApiRequest } from "../../src/hooks/usePollingApiRequest";
+import { act, render } from "@testing-library/react";
+
+jest.mock("../../src/index");
+const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
+const mockedIsApiError = jest.mocked(isApiError) as jest.Mock;
+
+type DeviceStatus = {
+  status: string;
+};
+
+describe("usePollingApiRequest", () => {
+  const makeResponse = (status: string, retryAfter: number | null = null) => ({
+    ok: true,
+    data: { status },
+    retryAfter,
+  });
+
+  const ComponentUsingHook = ({ maxErrors }: { maxErrors?: number }) => {
+    const [response, errors, , { lastUpdatedAt, isPolling }] = usePollingApiRequest<DeviceStatus>(
+      { method: "GET", url: "/devices/Q2XX-XXXX-XXXX/statuses" },
+      [],
+      maxErrors === undefined ? { pollInterval: 1000 } : { pollInterval: 1000, maxErrors },
+    );
+
+    return (
+      <div>
+        {response && <div>Status: {response.data.status}</div>}
+        {errors && <div>Errors: {errors.join(",")}</div>}
+        {lastUpdatedAt && <div>Updated at: {lastUpdatedAt}</div>}
+        <div>{isPolling ? "Polling" : "Stopped"}</div>
+      </div>
+    );
+  };
+
+  const setVisibilityState = (visibilityState: DocumentVisibilityState) => {
+    jest.spyOn(document, "visibilityState", "get").mockReturnValue(visibilityState);
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  // lets the mocked requests resolve after advancing the timers
+  const advanceTimers = async (ms: number) => {
+    await act(async () => {
+      jest.advanceTimersByTime(ms);
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(10000);
+  });
+
+  afterEach(() => {
+    mockedApiRequest.mockReset();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("makes the request again after each interval", async () => {
+    mockedApiRequest.mockResolvedValueOnce(makeResponse("online")).mockResolvedValueOnce(makeResponse("offline"));
+    const { queryByText } = render(<ComponentUsingHook />);
+
+    await advanceTimers(0);
+    expect(queryByText("Status: online")).not.toBeNull();
+    expect(queryByText("Updated at: 10000")).not.toBeNull();
+
+    await advanceTimers(999);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+
+    await advanceTimers(1);
+    expect(queryByText("Status: offline")).not.toBeNull();
+    expect(queryByText("Updated at: 11000")).not.toBeNull();
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for the Retry-After header", async () => {
+    mockedApiRequest.mockResolvedValue(makeResponse("online", 5));
+    render(<ComponentUsingHook />);
+
+    await advanceTimers(0);
+    await advanceTimers(4999);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+
+    await advanceTimers(1);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for the Retry-After header of a rate limited request", async () => {
+    mockedApiRequest
+      .mockRejectedValueOnce({
+        errors: ["Too Many Requests"],
+        ok: false,
+        statusCode: 429,
+        statusText: "Too Many Requests",
+        kind: "rateLimited",
+        headers: { "retry-after": "5" },
+      })
+      .mockResolvedValue(makeResponse("online"));
+    render(<ComponentUsingHook />);
+
+    await advanceTimers(0);
+    await advanceTimers(4999);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+
+    await advanceTimers(1);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("pauses while the tab is hidden", async () => {
+    mockedApiRequest.mockResolvedValue(makeResponse("online"));
+    const { queryByText } = render(<ComponentUsingHook />);
+
+    await advanceTimers(0);
+    act(() => setVisibilityState("hidden"));
+    await advanceTimers(5000);
+
+    expect(queryByText("Stopped")).not.toBeNull();
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+
+    act(() => setVisibilityState("visible"));
+    await advanceTimers(0);
+
+    expect(queryByText("Polling")).not.toBeNull();
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops after repeated errors", async () => {
+    mockedIsApiError.mockReturnValue(true);
+    mockedApiRequest.mockRejectedValue({ errors: ["Device not found"] });
+    const { queryByText } = render(<ComponentUsingHook maxErrors={2} />);
+
+    await advanceTimers(0);
+    expect(queryByText("Polling")).not.toBeNull();
+
+    await advanceTimers(1000);
+    expect(queryByText("Stopped")).not.toBeNull();
+
+    await advanceTimers(5000);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+    expect(queryByText("Errors: Device not found")).not.toBeNull();
+  });
+});
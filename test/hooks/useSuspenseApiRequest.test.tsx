@@ -0,0 +1,132 @@
+import { Suspense } from "react";
+import { apiRequest } from "../../src/index";
+import { ApiCacheProvider, createApiCache } from "../../src/hooks/apiCache";
+import { useSuspenseApiRequest, ApiErrorBoundary } from "../../src/hooks/useSuspenseApiRequest";
+import { fireEvent, render } from "@testing-library/react";
+
+jest.mock("../../src/index");
+const mockedApiRequest = jest.mocked(apiRequest) as jest.Mock;
+
+type Network = {
+  name: string;
+};
+
+describe("useSuspenseApiRequest", () => {
+  const notFound = {
+    errors: ["Network not found"],
+    ok: false,
+    statusCode: 404,
+    statusText: "Not Found",
+    kind: "notFound",
+  };
+
+  const NetworkName = () => {
+    const response = useSuspenseApiRequest<Network>({ method: "GET", url: "/networks/N_1" });
+
+    return <div>Network: {response.data.name}</div>;
+  };
+
+  const renderWithBoundaries = (children: JSX.Element) =>
+    render(
+      <ApiCacheProvider cache={createApiCache()}>
+        <ApiErrorBoundary>
+          <Suspense fallback={<div>Loading</div>}>{children}</Suspense>
+        </ApiErrorBoundary>
+      </ApiCacheProvider>,
+    );
+
+  beforeEach(() => {
+    // React logs the errors that error boundaries catch
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockedApiRequest.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  it("suspends until the response arrived", async () => {
+    mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { name: "HQ" } });
+    const { findByText, queryByText } = renderWithBoundaries(<NetworkName />);
+
+    expect(queryByText("Loading")).not.toBeNull();
+
+    await findByText("Network: HQ");
+  });
+
+  it("shares one request between components", async () => {
+    mockedApiRequest.mockResolvedValueOnce({ ok: true, data: { name: "HQ" } });
+    const { findAllByText } = renderWithBoundaries(
+      <>
+        <NetworkName />
+        <NetworkName />
+      </>,
+    );
+
+    expect(await findAllByText("Network: HQ")).toHaveLength(2);
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders the errors of a failed request in ApiErrorBoundary", async () => {
+    mockedApiRequest.mockRejectedValueOnce(notFound);
+    const { findByRole } = renderWithBoundaries(<NetworkName />);
+
+    expect((await findByRole("alert")).textContent).toContain("Network not found");
+  });
+
+  it("retries the failed request", async () => {
+    mockedApiRequest.mockRejectedValueOnce(notFound).mockResolvedValueOnce({ ok: true, data: { name: "HQ" } });
+    const { findByText } = renderWithBoundaries(<NetworkName />);
+
+    fireEvent.click(await findByText("Try again"));
+
+    await findByText("Network: HQ");
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("renders the fallback with the ApiError", async () => {
+    mockedApiRequest.mockRejectedValueOnce(notFound);
+    const { findByText } = render(
+      <ApiErrorBoundary fallback={(error) => <div>{`${error.kind}: ${error.errors[0]}`}</div>}>
+        <Suspense fallback={<div>Loading</div>}>
+          <NetworkName />
+        </Suspense>
+      </ApiErrorBoundary>,
+    );
+
+    await findByText("notFound: Network not found");
+  });
+
+  it("makes the failed request again when the boundary mounts again", async () => {
+    mockedApiRequest.mockRejectedValueOnce(notFound).mockResolvedValueOnce({ ok: true, data: { name: "HQ" } });
+    const renderNetworkName = () =>
+      render(
+        <ApiErrorBoundary>
+          <Suspense fallback={<div>Loading</div>}>
+            <NetworkName />
+          </Suspense>
+        </ApiErrorBoundary>,
+      );
+
+    const { findByRole, unmount } = renderNetworkName();
+    await findByRole("alert");
+    unmount();
+
+    await renderNetworkName().findByText("Network: HQ");
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes on errors that aren't ApiErrors", () => {
+    const Broken = () => {
+      throw new Error("Bug");
+    };
+
+    expect(() =>
+      render(
+        <ApiErrorBoundary>
+          <Broken />
+        </ApiErrorBoundary>,
+      ),
+    ).toThrow("Bug");
+  });
+});
@@ -40,6 +40,9 @@ describe("fetchBaseQuery", () => {
         retryAfter: null,
         statusCode: 200,
         statusText: undefined,
+        attempts: 1,
+        retries: [],
+        totalWait: 0,
       },
     });
   });
@@ -67,7 +70,13 @@ describe("fetchBaseQuery", () => {
         ok: false,
         statusCode: 500,
         statusText: "",
+        kind: "server",
+        request: { method: "GET", url: "/test/base" },
+        headers: {},
+        body: { errors: ["an error occurred"] },
+        retryCount: 0,
       },
+      meta: { attempts: 1, retries: [], totalWait: 0 },
     });
   });
 
@@ -83,9 +92,32 @@ describe("fetchBaseQuery", () => {
 
     expect(result).toEqual({
       error: {
-        //eslint-disable-next-line quotes
-        errors: ['"an error occurred"'],
+        errors: ["an error occurred"],
+        ok: false,
+        statusCode: 0,
+        statusText: "Unknown Error",
+        kind: "unknown",
+        request: { method: "GET", url: "/test/base" },
+        retryCount: 0,
       },
+      meta: { attempts: 1, retries: [], totalWait: 0 },
+    });
+  });
+
+  it("should return a cancellation error when the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const reduxFetch = fetchBaseQuery({
+      baseUrl: "/test/",
+      paramsSerializer: () => "",
+    });
+
+    const result = await reduxFetch("base", { signal: controller.signal } as FetchApiArgs, {});
+
+    expect(result).toEqual({
+      error: expect.objectContaining({ kind: "aborted", ok: false }),
+      meta: { attempts: 1, retries: [], totalWait: 0 },
     });
   });
 
@@ -114,6 +146,88 @@ describe("fetchBaseQuery", () => {
     expect(global.fetch).toHaveBeenCalledWith("/test/base?hello=world", expect.anything());
   });
 
+  it("should run the middleware around fetch", async () => {
+    const middleware = jest.fn((request, next) => next(request));
+    const reduxFetch = fetchBaseQuery({
+      baseUrl: "/test/",
+      paramsSerializer: () => "",
+      middleware: [middleware],
+    });
+
+    await reduxFetch("base", {} as FetchApiArgs, {});
+
+    expect(middleware).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/test/base", attempt: 0 }),
+      expect.anything(),
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe("retries", () => {
+    const rateLimitedResponse = {
+      json: () => Promise.resolve({ errors: ["API rate limit exceeded for organization"] }),
+      status: 429,
+      statusText: "Too Many Requests",
+      ok: false,
+    };
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce(rateLimitedResponse)
+        .mockResolvedValueOnce(rateLimitedResponse)
+        .mockResolvedValue({ json: () => Promise.resolve({ id: "1234", count: 23 }), status: 200, ok: true });
+    });
+
+    it("should add each retry and the total wait to meta", async () => {
+      const onRetry = jest.fn();
+      const reduxFetch = fetchBaseQuery({
+        baseUrl: "/test/",
+        paramsSerializer: () => "",
+        retry: { backoff: (attempt) => attempt, jitter: 0, onRetry },
+      });
+
+      const result = await reduxFetch("base", {} as FetchApiArgs, {});
+
+      expect(result.data).toEqual({ id: "1234", count: 23 });
+      expect(result.meta).toMatchObject({
+        attempts: 3,
+        retries: [
+          { attempt: 0, delay: 0, status: 429 },
+          { attempt: 1, delay: 1, status: 429 },
+        ],
+        totalWait: 1,
+      });
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it("should let endpoints override the retry options through extraOptions", async () => {
+      const reduxFetch = fetchBaseQuery({
+        baseUrl: "/test/",
+        paramsSerializer: () => "",
+        retry: { backoff: () => 0, jitter: 0 },
+      });
+
+      const result = await reduxFetch("base", {} as FetchApiArgs, { retry: { maxRetries: 1 } });
+
+      expect(result.error).toMatchObject({ kind: "rateLimited", statusCode: 429, retryCount: 1 });
+      expect(result.meta).toEqual({ attempts: 2, retries: [{ attempt: 0, delay: 0, status: 429 }], totalWait: 0 });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only retry the statuses it is given", async () => {
+      const reduxFetch = fetchBaseQuery({
+        baseUrl: "/test/",
+        paramsSerializer: () => "",
+      });
+
+      const result = await reduxFetch("base", {} as FetchApiArgs, { retry: { retryOnStatus: [503] } });
+
+      expect(result.error).toMatchObject({ statusCode: 429 });
+      expect(result.meta).toEqual({ attempts: 1, retries: [], totalWait: 0 });
+    });
+  });
+
   describe("headers", () => {
     it("should transform headers", async () => {
       const reduxFetch = fetchBaseQuery({